@@ -20,11 +20,16 @@ CREATE TABLE IF NOT EXISTS movie_categories (
   movie_id INTEGER NOT NULL,
   category TEXT NOT NULL,        -- now_playing, popular, upcoming, top_rated
   added_at INTEGER NOT NULL,     -- when movie was added to this category (unix time)
+  position INTEGER NOT NULL DEFAULT 0, -- rank in the TMDB list at the last refresh (feed order, 0 first)
   PRIMARY KEY (movie_id, category),
   FOREIGN KEY(movie_id) REFERENCES movies(id)
 );
 
-CREATE INDEX IF NOT EXISTS idx_movie_categories_category ON movie_categories(category, added_at DESC);
+-- Migration for existing databases:
+-- ALTER TABLE movie_categories ADD COLUMN position INTEGER NOT NULL DEFAULT 0;
+-- DROP INDEX IF EXISTS idx_movie_categories_category;
+
+CREATE INDEX IF NOT EXISTS idx_movie_categories_position ON movie_categories(category, position);
 CREATE INDEX IF NOT EXISTS idx_movie_categories_movie ON movie_categories(movie_id);
 
 CREATE TABLE IF NOT EXISTS roasts (
@@ -34,13 +39,41 @@ CREATE TABLE IF NOT EXISTS roasts (
   language TEXT DEFAULT 'en',     -- ISO 639-1 language code (future i18n support)
   created_at INTEGER,             -- When the roast was generated (unix time)
   is_featured INTEGER DEFAULT 0,  -- For pinning / highlights later
+  featured_starts_at INTEGER,     -- Feature window start (unix time, NULL = immediately)
+  featured_ends_at INTEGER,       -- Feature window end (unix time, NULL = until unfeatured)
+  featured_rank INTEGER,          -- Carousel order (lower first, NULL = after ranked roasts)
   is_active INTEGER DEFAULT 1,    -- Soft versioning: only one active roast per movie+language
+  regeneration_reason TEXT,       -- Why this version was force-regenerated (NULL for normal generation)
+  regenerated_by TEXT,            -- Who requested the regeneration
   FOREIGN KEY(movie_id) REFERENCES movies(id)
 );
 
+-- Migration for existing databases:
+-- ALTER TABLE roasts ADD COLUMN regeneration_reason TEXT;
+-- ALTER TABLE roasts ADD COLUMN regenerated_by TEXT;
+-- ALTER TABLE roasts ADD COLUMN featured_starts_at INTEGER;
+-- ALTER TABLE roasts ADD COLUMN featured_ends_at INTEGER;
+-- ALTER TABLE roasts ADD COLUMN featured_rank INTEGER;
+
 CREATE INDEX IF NOT EXISTS idx_roasts_created ON roasts(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_roasts_movie ON roasts(movie_id);
 CREATE UNIQUE INDEX IF NOT EXISTS uniq_active_roast ON roasts(movie_id, language) WHERE is_active = 1;
+CREATE INDEX IF NOT EXISTS idx_roasts_featured ON roasts(featured_rank) WHERE is_featured = 1;
+
+-- Claude outputs rejected by the roast validator (never written to roasts)
+CREATE TABLE IF NOT EXISTS roast_validation_failures (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  movie_id INTEGER NOT NULL,
+  language TEXT DEFAULT 'en',
+  attempt INTEGER NOT NULL,           -- 1-based attempt number within one generation
+  violations_json TEXT NOT NULL,      -- JSON array of violation messages
+  response_text TEXT,                 -- Raw Claude response that was rejected
+  correlation_id TEXT,
+  created_at INTEGER NOT NULL,        -- unix time
+  FOREIGN KEY(movie_id) REFERENCES movies(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_roast_validation_failures_movie ON roast_validation_failures(movie_id, created_at DESC);
 
 CREATE TABLE IF NOT EXISTS extractions (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -55,13 +88,95 @@ CREATE TABLE IF NOT EXISTS extractions (
   completion_tokens INTEGER,
   total_tokens INTEGER,
   total_cost REAL,
+  completeness_score REAL,            -- 0-1 share of filled extraction fields
+  completeness_json TEXT,             -- per-section scores and counts
   FOREIGN KEY(movie_id) REFERENCES movies(id)
 );
 
+-- Migration for existing databases:
+-- ALTER TABLE extractions ADD COLUMN completeness_score REAL;
+-- ALTER TABLE extractions ADD COLUMN completeness_json TEXT;
+
 CREATE INDEX IF NOT EXISTS idx_extractions_movie ON extractions(movie_id);
 CREATE INDEX IF NOT EXISTS idx_extractions_time ON extractions(fetched_at DESC);
 CREATE INDEX IF NOT EXISTS idx_extractions_movie_time ON extractions(movie_id, fetched_at DESC);
 
+-- One row per billable Brave / Grok / Claude call
+CREATE TABLE IF NOT EXISTS api_costs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  provider TEXT NOT NULL,             -- 'brave' | 'grok' | 'claude'
+  model TEXT NOT NULL,                -- price table key, e.g. 'claude-sonnet-4-5-20250929'
+  operation TEXT NOT NULL,            -- 'search' | 'extraction' | 'roast'
+  movie_id INTEGER,
+  correlation_id TEXT,
+  input_tokens INTEGER DEFAULT 0,
+  output_tokens INTEGER DEFAULT 0,
+  cache_write_tokens INTEGER DEFAULT 0,
+  cache_read_tokens INTEGER DEFAULT 0,
+  request_count INTEGER DEFAULT 1,
+  cost_usd REAL NOT NULL,
+  cost_inr REAL NOT NULL,
+  created_at INTEGER NOT NULL         -- unix time
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_costs_time ON api_costs(created_at);
+CREATE INDEX IF NOT EXISTS idx_api_costs_movie ON api_costs(movie_id, created_at);
+
+-- API keys (only the SHA-256 hash of the secret is stored)
+CREATE TABLE IF NOT EXISTS api_keys (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,                 -- e.g. 'android-app', 'admin-scripts'
+  key_hash TEXT NOT NULL UNIQUE,      -- hex SHA-256 of the plaintext key
+  key_prefix TEXT NOT NULL,           -- first characters of the key, to recognise it in listings
+  scopes TEXT NOT NULL,               -- comma separated: read,generate,admin,cron
+  created_at INTEGER NOT NULL,        -- unix time
+  revoked_at INTEGER,                 -- unix time, NULL while active
+  last_used_at INTEGER,               -- unix time, updated at most once a minute
+  expires_at INTEGER,                 -- unix time, NULL = never; set on the old key when it is rotated
+  rotated_from INTEGER                -- id of the key this one replaced
+);
+
+-- One row per MOVIE_QUEUE message: on-demand generation (read cache miss) and cron runs
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  type TEXT NOT NULL,                 -- 'roast' | 'truth' | 'refresh_truth'
+  movie_id INTEGER NOT NULL,
+  title TEXT,
+  language TEXT NOT NULL DEFAULT 'en',
+  status TEXT NOT NULL,               -- 'queued' | 'running' | 'succeeded' | 'skipped' | 'failed' | 'dead_lettered'
+  cron_run_id INTEGER,                -- cron_runs.id, NULL for on-demand jobs
+  correlation_id TEXT,                -- request or cron run that created the job
+  attempts INTEGER NOT NULL DEFAULT 0, -- deliveries picked up by the consumer
+  created_at INTEGER NOT NULL,        -- unix time
+  started_at INTEGER,                 -- unix time of the latest attempt
+  finished_at INTEGER,                -- unix time, NULL until succeeded/skipped/dead_lettered
+  last_error TEXT,
+  FOREIGN KEY(cron_run_id) REFERENCES cron_runs(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_open ON generation_jobs(movie_id, type, language, status);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_cron_run ON generation_jobs(cron_run_id);
+
+-- Messages that exhausted their retries on movie-processing-queue (written by the DLQ consumer)
+CREATE TABLE IF NOT EXISTS dead_letters (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  job_id INTEGER,                     -- generation_jobs.id, NULL for messages queued before job tracking
+  type TEXT NOT NULL,                 -- 'roast' | 'truth' | 'refresh_truth'
+  movie_id INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  language TEXT NOT NULL DEFAULT 'en',
+  correlation_id TEXT NOT NULL,
+  message_json TEXT NOT NULL,         -- original queue message, sent again on replay
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  status TEXT NOT NULL,               -- 'pending' | 'replayed' | 'ignored'
+  received_at INTEGER NOT NULL,       -- unix time
+  resolved_at INTEGER,                -- unix time of replay / ignore
+  FOREIGN KEY(job_id) REFERENCES generation_jobs(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letters_status ON dead_letters(status, received_at);
+
 CREATE TABLE IF NOT EXISTS streaming_providers (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   tmdb_movie_id INTEGER NOT NULL,
@@ -83,16 +198,32 @@ CREATE TABLE IF NOT EXISTS cron_runs (
   started_at INTEGER NOT NULL,
   finished_at INTEGER,
   duration_ms INTEGER,                -- Calculated duration for analytics
-  status TEXT NOT NULL,                -- 'running' | 'success' | 'failed'
-  movies_roasted_count INTEGER DEFAULT 0,
-  movie_titles TEXT,                  -- comma separated
+  status TEXT NOT NULL,                -- 'dispatching' | 'running' | 'success' | 'partial' | 'failed' | 'abandoned'
+  movies_queued_count INTEGER DEFAULT 0,
+  movies_roasted_count INTEGER DEFAULT 0, -- queue jobs that succeeded
+  movies_skipped_count INTEGER DEFAULT 0,
+  movies_failed_count INTEGER DEFAULT 0,  -- queue jobs that were dead-lettered
+  movie_titles TEXT,                  -- comma separated, movies that succeeded
+  summary_json TEXT,                  -- job-specific counts, e.g. {"movies":20,"providers":57}
   cursor TEXT,
-  error TEXT
+  error TEXT,
+  heartbeat_at INTEGER,               -- last sign of progress (ms)
+  lease_expires_at INTEGER            -- lock lease (ms); an active run past it is reaped as 'abandoned'
 );
 
+-- Migration for existing databases:
+-- ALTER TABLE cron_runs ADD COLUMN summary_json TEXT;
+-- ALTER TABLE cron_runs ADD COLUMN heartbeat_at INTEGER;
+-- ALTER TABLE cron_runs ADD COLUMN lease_expires_at INTEGER;
+-- ALTER TABLE cron_runs ADD COLUMN movies_queued_count INTEGER DEFAULT 0;
+-- ALTER TABLE cron_runs ADD COLUMN movies_skipped_count INTEGER DEFAULT 0;
+-- ALTER TABLE cron_runs ADD COLUMN movies_failed_count INTEGER DEFAULT 0;
+-- DROP INDEX idx_cron_single_active; (then re-create it below)
+
 CREATE INDEX IF NOT EXISTS idx_cron_runs_active
 ON cron_runs(job_name, status);
 
 -- Enforce single active run per job at database level
+-- A run stays active until every message it queued is acked or dead-lettered
 CREATE UNIQUE INDEX IF NOT EXISTS idx_cron_single_active
-ON cron_runs(job_name) WHERE status='running';
+ON cron_runs(job_name) WHERE status IN ('dispatching', 'running');
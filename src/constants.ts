@@ -1,4 +1,29 @@
+import type { ModelPrice, RateLimitClass, RateLimitPolicy } from './types';
+
 export const USD_TO_INR = 85;
 
+// Default USD prices per model (token prices per million tokens), overridable with the PRICE_TABLE env var
+export const DEFAULT_API_PRICES: Record<string, ModelPrice> = {
+	'brave-web-search': { per_request: 0.005 },
+	'grok-4-1-fast-non-reasoning': { input_per_mtok: 0.2, output_per_mtok: 0.5 },
+	'claude-sonnet-4-5-20250929': { input_per_mtok: 3, output_per_mtok: 15, cache_write_per_mtok: 3.75, cache_read_per_mtok: 0.3 },
+};
+
+// Default rate limits per API key and route class, overridable with the RATE_LIMITS env var
+export const DEFAULT_RATE_LIMITS: Record<RateLimitClass, RateLimitPolicy> = {
+	read: { limit: 120, window_seconds: 60 },
+	generate: { limit: 10, window_seconds: 60 },
+	admin: { limit: 30, window_seconds: 60 },
+};
+
+// Dead letter queue of movie-processing-queue (wrangler.toml), consumed by the same Worker
+export const DEAD_LETTER_QUEUE = 'movie-processing-dlq';
+
+// R2 log retention
+export const DEFAULT_LOG_RETENTION_DAYS = 7;
+export const MAX_LOG_PURGE_OBJECTS = 10000; // Per purge run, to stay within subrequest limits
+export const MAX_LOG_SCAN_OBJECTS = 5000; // Per GET /admin/logs call; the cursor continues from there
+
 // Cron constants
+export const DEFAULT_CRON_LOCK_TIMEOUT_MINUTES = 60; // Active runs without a heartbeat for this long are abandoned
 export const CRON_DELAY_MS = 500; // 500ms delay between movie processing (rate limiting)
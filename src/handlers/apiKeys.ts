@@ -0,0 +1,147 @@
+import type { Env, ApiKeyInfo, ApiKeySecretResponse, ApiScope, CreateApiKeyRequest, RotateApiKeyRequest } from '../types';
+import { getApiKeys, getApiKeyById, insertApiKey, rotateApiKey, revokeApiKey, DBApiKey } from '../services/database';
+import { json } from '../utils/response';
+import { API_SCOPES, generateApiKey, parseScopes } from '../utils/auth';
+
+const DEFAULT_ROTATION_GRACE_HOURS = 24;
+const MAX_ROTATION_GRACE_HOURS = 30 * 24;
+const MAX_KEY_NAME_LENGTH = 100;
+
+function toIso(seconds: number | null): string | null {
+	return seconds ? new Date(seconds * 1000).toISOString() : null;
+}
+
+/**
+ * Converts a DB key row into the API shape (never includes the hash)
+ */
+function toApiKeyInfo(key: DBApiKey): ApiKeyInfo {
+	const now = Math.floor(Date.now() / 1000);
+	const status = key.revoked_at ? 'revoked' : key.expires_at && key.expires_at <= now ? 'expired' : key.expires_at ? 'expiring' : 'active';
+
+	return {
+		id: key.id,
+		name: key.name,
+		key_prefix: key.key_prefix,
+		scopes: parseScopes(key.scopes),
+		status,
+		created_at: new Date(key.created_at * 1000).toISOString(),
+		expires_at: toIso(key.expires_at),
+		revoked_at: toIso(key.revoked_at),
+		last_used_at: toIso(key.last_used_at),
+		rotated_from: key.rotated_from ?? null,
+	};
+}
+
+/**
+ * Creates an API key; the plaintext is returned once and only its hash is stored
+ * POST /admin/keys
+ * Body: { name: string, scopes: ApiScope[], expires_at?: ISO 8601 }
+ */
+export async function handleCreateApiKey(req: Request, env: Env): Promise<Response> {
+	let body: CreateApiKeyRequest;
+	try {
+		body = (await req.json()) as CreateApiKeyRequest;
+	} catch {
+		return json({ error: 'Bad Request', message: 'Body must be valid JSON' }, 400);
+	}
+
+	const name = typeof body?.name === 'string' ? body.name.trim() : '';
+	if (!name || name.length > MAX_KEY_NAME_LENGTH) {
+		return json({ error: 'Bad Request', message: `name is required (max ${MAX_KEY_NAME_LENGTH} characters)` }, 400);
+	}
+
+	const scopes = Array.isArray(body.scopes) ? Array.from(new Set(body.scopes)) : [];
+	const invalidScopes = scopes.filter((s) => !API_SCOPES.includes(s as ApiScope));
+	if (scopes.length === 0 || invalidScopes.length > 0) {
+		return json({ error: 'Bad Request', message: `scopes must be a non-empty array of: ${API_SCOPES.join(', ')}` }, 400);
+	}
+
+	let expiresAt: number | null = null;
+	if (body.expires_at !== undefined) {
+		const ms = typeof body.expires_at === 'string' ? Date.parse(body.expires_at) : NaN;
+		if (isNaN(ms) || ms <= Date.now()) {
+			return json({ error: 'Bad Request', message: 'expires_at must be a future ISO 8601 timestamp' }, 400);
+		}
+		expiresAt = Math.floor(ms / 1000);
+	}
+
+	const generated = await generateApiKey();
+	const keyId = await insertApiKey(env, { name, keyHash: generated.keyHash, keyPrefix: generated.keyPrefix, scopes, expiresAt });
+	const created = await getApiKeyById(env, keyId);
+
+	console.log(`[API_KEYS] Created key ${keyId} '${name}' (${scopes.join(',')})`);
+
+	const response: ApiKeySecretResponse = { key: generated.key, api_key: toApiKeyInfo(created!) };
+	return json(response, 201);
+}
+
+/**
+ * Lists all API keys (metadata only)
+ * GET /admin/keys
+ */
+export async function handleListApiKeys(env: Env): Promise<Response> {
+	const keys = await getApiKeys(env);
+	return json({ keys: keys.map(toApiKeyInfo) });
+}
+
+/**
+ * Issues a new secret for a key; the old secret keeps working for grace_hours
+ * POST /admin/keys/:id/rotate
+ * Body (optional): { grace_hours?: number }
+ */
+export async function handleRotateApiKey(keyId: string, req: Request, env: Env): Promise<Response> {
+	let body: RotateApiKeyRequest = {};
+	const text = await req.text();
+	if (text.trim()) {
+		try {
+			body = JSON.parse(text) as RotateApiKeyRequest;
+		} catch {
+			return json({ error: 'Bad Request', message: 'Body must be valid JSON' }, 400);
+		}
+	}
+
+	const graceHours = body.grace_hours ?? DEFAULT_ROTATION_GRACE_HOURS;
+	if (typeof graceHours !== 'number' || isNaN(graceHours) || graceHours < 0 || graceHours > MAX_ROTATION_GRACE_HOURS) {
+		return json({ error: 'Bad Request', message: `grace_hours must be between 0 and ${MAX_ROTATION_GRACE_HOURS}` }, 400);
+	}
+
+	const oldKey = await getApiKeyById(env, parseInt(keyId));
+	if (!oldKey) {
+		return json({ error: 'Not found', message: `API key ${keyId} not found` }, 404);
+	}
+
+	const oldInfo = toApiKeyInfo(oldKey);
+	if (oldInfo.status === 'revoked' || oldInfo.status === 'expired') {
+		return json({ error: 'Conflict', message: `API key ${keyId} is ${oldInfo.status} and cannot be rotated` }, 409);
+	}
+
+	const generated = await generateApiKey();
+	const oldExpiresAt = Math.floor(Date.now() / 1000) + Math.round(graceHours * 3600);
+	const newKeyId = await rotateApiKey(env, oldKey, generated, oldExpiresAt);
+
+	const [newKey, previous] = await Promise.all([getApiKeyById(env, newKeyId), getApiKeyById(env, oldKey.id)]);
+
+	console.log(`[API_KEYS] Rotated key ${oldKey.id} '${oldKey.name}' -> ${newKeyId}, old key expires ${toIso(previous!.expires_at)}`);
+
+	const response: ApiKeySecretResponse = { key: generated.key, api_key: toApiKeyInfo(newKey!), previous: toApiKeyInfo(previous!) };
+	return json(response, 201);
+}
+
+/**
+ * Revokes a key immediately
+ * DELETE /admin/keys/:id
+ */
+export async function handleRevokeApiKey(keyId: string, env: Env): Promise<Response> {
+	const key = await getApiKeyById(env, parseInt(keyId));
+	if (!key) {
+		return json({ error: 'Not found', message: `API key ${keyId} not found` }, 404);
+	}
+
+	if (!key.revoked_at) {
+		await revokeApiKey(env, key.id);
+		console.log(`[API_KEYS] Revoked key ${key.id} '${key.name}'`);
+	}
+
+	const revoked = await getApiKeyById(env, key.id);
+	return json({ api_key: toApiKeyInfo(revoked!) });
+}
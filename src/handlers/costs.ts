@@ -0,0 +1,108 @@
+import type { Env, BudgetResponse, CostGroupBy, CostReportResponse } from '../types';
+import { getCostReport } from '../services/database';
+import { getBudgetStatus } from '../services/costs';
+import { json } from '../utils/response';
+
+const COST_GROUPS: CostGroupBy[] = ['movie', 'provider', 'day'];
+const DEFAULT_REPORT_DAYS = 30;
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Parses a YYYY-MM-DD date into unix seconds (UTC midnight), null if invalid
+ */
+function parseDay(value: string): number | null {
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+	const ms = Date.parse(`${value}T00:00:00Z`);
+	return isNaN(ms) ? null : Math.floor(ms / 1000);
+}
+
+function formatDay(seconds: number): string {
+	return new Date(seconds * 1000).toISOString().split('T')[0];
+}
+
+function round(value: number, digits: number): number {
+	const factor = 10 ** digits;
+	return Math.round(value * factor) / factor;
+}
+
+/**
+ * Spend report from the API cost ledger
+ * GET /admin/costs?from=YYYY-MM-DD&to=YYYY-MM-DD&groupBy=movie|provider|day
+ * from/to are inclusive UTC days, defaulting to the last 30 days
+ */
+export async function handleCostReport(params: URLSearchParams, env: Env): Promise<Response> {
+	const groupBy = (params.get('groupBy') || 'day') as CostGroupBy;
+	if (!COST_GROUPS.includes(groupBy)) {
+		return json({ error: 'Bad Request', message: `groupBy must be one of: ${COST_GROUPS.join(', ')}` }, 400);
+	}
+
+	const toParam = params.get('to');
+	const fromParam = params.get('from');
+	const today = parseDay(new Date().toISOString().split('T')[0])!;
+
+	const to = toParam ? parseDay(toParam) : today;
+	const from = fromParam ? parseDay(fromParam) : to !== null ? to - (DEFAULT_REPORT_DAYS - 1) * DAY_SECONDS : null;
+
+	if (to === null || from === null) {
+		return json({ error: 'Bad Request', message: 'from and to must be dates in YYYY-MM-DD format' }, 400);
+	}
+	if (from > to) {
+		return json({ error: 'Bad Request', message: 'from must not be after to' }, 400);
+	}
+
+	const rows = await getCostReport(env, from, to + DAY_SECONDS, groupBy);
+
+	const groups = rows.map((row) => ({
+		key: String(row.key),
+		...(groupBy === 'movie' ? { movie_title: row.movie_title ?? null } : {}),
+		calls: row.calls,
+		input_tokens: row.input_tokens || 0,
+		output_tokens: row.output_tokens || 0,
+		cache_write_tokens: row.cache_write_tokens || 0,
+		cache_read_tokens: row.cache_read_tokens || 0,
+		cost_usd: round(row.cost_usd || 0, 6),
+		cost_inr: round(row.cost_inr || 0, 4),
+	}));
+
+	const totals = groups.reduce(
+		(sum, group) => ({
+			calls: sum.calls + group.calls,
+			input_tokens: sum.input_tokens + group.input_tokens,
+			output_tokens: sum.output_tokens + group.output_tokens,
+			cache_write_tokens: sum.cache_write_tokens + group.cache_write_tokens,
+			cache_read_tokens: sum.cache_read_tokens + group.cache_read_tokens,
+			cost_usd: round(sum.cost_usd + group.cost_usd, 6),
+			cost_inr: round(sum.cost_inr + group.cost_inr, 4),
+		}),
+		{ calls: 0, input_tokens: 0, output_tokens: 0, cache_write_tokens: 0, cache_read_tokens: 0, cost_usd: 0, cost_inr: 0 }
+	);
+
+	const response: CostReportResponse = {
+		from: formatDay(from),
+		to: formatDay(to),
+		group_by: groupBy,
+		totals,
+		groups,
+	};
+
+	return json(response);
+}
+
+/**
+ * Remaining daily/monthly spend budget per provider
+ * GET /admin/budget
+ */
+export async function handleBudget(env: Env): Promise<Response> {
+	const providers = await getBudgetStatus(env);
+
+	const response: BudgetResponse = {
+		generated_at: new Date().toISOString(),
+		providers: providers.map((status) => ({
+			...status,
+			daily: { ...status.daily, spent_usd: round(status.daily.spent_usd, 6) },
+			monthly: { ...status.monthly, spent_usd: round(status.monthly.spent_usd, 6) },
+		})),
+	};
+
+	return json(response);
+}
@@ -1,24 +1,83 @@
-import type { Env, CronResult, NowPlayingResponse, NowPlayingMovie } from '../types';
+import type {
+	Env,
+	CronResult,
+	NowPlayingResponse,
+	NowPlayingMovie,
+	CronRunJobsResponse,
+	CronLockReleaseResponse,
+	CronJobDefinition,
+	GenerationJobStatus,
+} from '../types';
 import { handleNowPlaying } from './nowPlaying';
 import { handlePopularMovies } from './popular';
 import { json } from '../utils/response';
-import { Logger } from '../utils/logger';
-import { CronTracker } from '../services/cron';
+import { Trace, Span } from '../utils/tracing';
+import { CronTracker, getCronRun, getCronRuns } from '../services/cron';
+import { getTruthRefreshCandidates, getGenerationJobsByCronRun, getMoviesByCategory } from '../services/database';
+import { queueGenerationJobs, toGenerationJob } from './jobs';
+import { refreshWatchProviders } from './movieRoast';
+import { CRON_DELAY_MS } from '../constants';
+import { purgeExpiredLogs } from '../services/logs';
+import { getTruthFreshness, parseRefreshSchedule } from '../utils/truthFreshness';
+
+/**
+ * Cron job registry: scheduled() runs every job whose schedule matches the firing
+ * cron expression (jobs may share one). Each job is locked and tracked under its name in cron_runs.
+ * Schedules must also be listed in wrangler.toml [triggers].
+ */
+export const CRON_JOBS: CronJobDefinition[] = [
+	{
+		name: 'movie_roast',
+		schedule: '30 16 * * *',
+		description: 'Ingest now-playing + popular movies and queue missing roasts',
+		run: runDailyRoastGeneration,
+	},
+	{
+		name: 'truth_refresh',
+		schedule: '45 16 * * *',
+		description: 'Queue truth re-research for movies past a freshness checkpoint',
+		run: runTruthRefresh,
+	},
+	{ name: 'ingest_now_playing', schedule: '0 */6 * * *', description: 'Refresh the now_playing category from TMDB', run: runIngestNowPlaying },
+	{ name: 'ingest_popular', schedule: '0 */6 * * *', description: 'Refresh the popular category and popularity scores from TMDB', run: runIngestPopular },
+	{
+		name: 'refresh_providers',
+		schedule: '0 3 * * *',
+		description: 'Refresh IN streaming providers for now-playing and popular movies',
+		run: runProviderRefresh,
+	},
+	{ name: 'purge_logs', schedule: '0 3 * * *', description: 'Delete R2 logs older than LOG_RETENTION_DAYS', run: runLogPurge },
+];
+
+export function getCronJob(name: string): CronJobDefinition | undefined {
+	return CRON_JOBS.find((job) => job.name === name);
+}
+
+/**
+ * Jobs to run for a firing cron expression
+ */
+export function getCronJobsForSchedule(cron: string): CronJobDefinition[] {
+	return CRON_JOBS.filter((job) => job.schedule === cron);
+}
+
+// Extra days past the last checkpoint to still pick up movies the job missed (e.g. failed runs)
+const TRUTH_REFRESH_GRACE_DAYS = 7;
 
 /**
  * Main cron job logic - fetches now-playing movies and generates roasts for each
  * @param env - Cloudflare environment bindings
- * @param correlationId - Unique ID for this cron run (used for logging)
+ * @param parent - Span of the scheduled run or manual trigger; its correlation ID identifies this cron run
  * @returns CronResult with execution summary
  */
-export async function runDailyRoastGeneration(env: Env, correlationId: string): Promise<CronResult> {
+export async function runDailyRoastGeneration(env: Env, parent: Span): Promise<CronResult> {
 	const startTime = Date.now();
-	const logger = new Logger(env, '/cron/run', 'SCHEDULED', correlationId);
+	const span = parent.startSpan('cron.movie_roast');
+	const correlationId = span.correlationId;
 	const tracker = new CronTracker(env, 'movie_roast');
 	let runId: number | null = null;
-	let finalStatus = 200;
+	let failure: unknown;
 
-	await logger.logRequest({ trigger: correlationId.startsWith('cron-') ? 'scheduled' : 'manual' });
+	span.logRequest({ trigger: correlationId.startsWith('cron-') ? 'scheduled' : 'manual' });
 
 	try {
 		// 0. Acquire Lock & Start Run
@@ -30,7 +89,7 @@ export async function runDailyRoastGeneration(env: Env, correlationId: string):
 			if (e.message.includes('already running')) {
 				console.warn(`[${correlationId}] Skipping run: ${e.message}`);
 				// Log this as a special "skipped" event rather than a full error
-				await logger.logWarn('Cron execution skipped: Job already running');
+				span.logWarn('Cron execution skipped: Job already running');
 				// DO NOT set runId here - no lock was acquired, nothing to release
 				return {
 					timestamp: new Date().toISOString(),
@@ -46,14 +105,14 @@ export async function runDailyRoastGeneration(env: Env, correlationId: string):
 
 		// Step 1: Fetch now-playing movies
 		console.log(`[${correlationId}] Fetching now-playing movies...`);
-		const nowPlayingResponse = await handleNowPlaying(env);
+		const nowPlayingResponse = await handleNowPlaying(env, span);
 		const nowPlayingData = (await nowPlayingResponse.json()) as NowPlayingResponse;
 		const nowPlayingMovies = nowPlayingData.movies;
 		console.log(`[${correlationId}] Found ${nowPlayingMovies.length} now-playing movies`);
 
 		// Step 2: Fetch popular movies
 		console.log(`[${correlationId}] Fetching popular movies...`);
-		const popularResponse = await handlePopularMovies(env);
+		const popularResponse = await handlePopularMovies(env, span);
 		const popularData = (await popularResponse.json()) as NowPlayingResponse;
 		const popularMovies = popularData.movies;
 		console.log(`[${correlationId}] Found ${popularMovies.length} popular movies`);
@@ -76,28 +135,30 @@ export async function runDailyRoastGeneration(env: Env, correlationId: string):
 		console.log(`[${correlationId}] Merged: ${movies.length} unique movies (${duplicateCount} duplicates removed)`);
 
 		// Step 4: Send movies to queue for parallel processing
+		// TMDB fetches can be slow: renew the lock lease before dispatching
+		if (runId) {
+			await tracker.heartbeat(runId);
+		}
 		console.log(`[${correlationId}] Sending ${movies.length} movies to queue...`);
 
-		// Cloudflare Queues limits sendBatch to 100 messages per call
-		const QUEUE_BATCH_SIZE = 100;
-		for (let i = 0; i < movies.length; i += QUEUE_BATCH_SIZE) {
-			const chunk = movies.slice(i, i + QUEUE_BATCH_SIZE);
-			await env.MOVIE_QUEUE.sendBatch(
-				chunk.map(movie => ({
-					body: {
-						movieId: movie.id,
-						title: movie.title,
-						correlationId,
-					}
-				}))
-			);
-		}
+		// One generation job per message, so the consumer can report back per movie
+		const jobIds = await queueGenerationJobs(
+			env,
+			movies.map(movie => ({
+				type: 'roast' as const,
+				movieId: movie.id,
+				title: movie.title,
+				language: 'en',
+				correlationId,
+				cronRunId: runId,
+			}))
+		);
 
-		console.log(`[${correlationId}] Queued ${movies.length} movies for processing`);
+		console.log(`[${correlationId}] Queued ${jobIds.length} movies for processing`);
 
-		// Update tracking
+		// The run stays running until the queue consumer has finished every movie
 		if (runId) {
-			await tracker.updateProgress(runId, movies.map(m => m.title), movies.length);
+			await tracker.markDispatched(runId, jobIds.length);
 		}
 
 		// Step 5: Create result summary
@@ -106,24 +167,18 @@ export async function runDailyRoastGeneration(env: Env, correlationId: string):
 			trigger: correlationId.startsWith('cron-') ? 'scheduled' : 'manual',
 			correlation_id: correlationId,
 			movies_fetched: movies.length,
-			movies_queued: movies.length,
+			movies_queued: jobIds.length,
 			duration_ms: Date.now() - startTime,
-			status: 'success',
+			status: jobIds.length > 0 ? 'in_progress' : 'success',
 		};
 
-		console.log(`[${correlationId}] Cron job completed:`, cronResult);
-
-		// Complete run in DB
-		if (runId) {
-			await tracker.completeRun(runId, null);
-		}
+		console.log(`[${correlationId}] Cron job dispatched:`, cronResult);
 
 		// Step 6: Log completion
-		await logger.logResponse(200, cronResult);
+		span.logResponse(200, cronResult);
 
 		return cronResult;
 	} catch (error) {
-		finalStatus = 500;
 		const errorMessage = error instanceof Error ? error.message : String(error);
 		console.error(`[${correlationId}] Cron job failed:`, error);
 		
@@ -132,32 +187,260 @@ export async function runDailyRoastGeneration(env: Env, correlationId: string):
 			await tracker.failRun(runId, error);
 		}
 
-		await logger.logResponse(500, { error: errorMessage });
+		span.logResponse(500, { error: errorMessage });
+		failure = error;
+
+		throw error;
+	} finally {
+		span.end(failure);
+	}
+}
+
+/**
+ * Truth refresh job - enqueues movies whose latest extraction missed a freshness checkpoint
+ * (TRUTH_REFRESH_DAYS after release) for a fresh Brave search + Grok extraction
+ * @param env - Cloudflare environment bindings
+ * @param parent - Span of the scheduled run or manual trigger; its correlation ID identifies this cron run
+ * @returns CronResult with execution summary
+ */
+export async function runTruthRefresh(env: Env, parent: Span): Promise<CronResult> {
+	const startTime = Date.now();
+	const span = parent.startSpan('cron.truth_refresh');
+	const correlationId = span.correlationId;
+	const trigger = correlationId.startsWith('cron-') ? 'scheduled' : 'manual';
+	const tracker = new CronTracker(env, 'truth_refresh');
+	let runId: number | null = null;
+	let failure: unknown;
+
+	try {
+		try {
+			runId = await tracker.startRun();
+		} catch (e: any) {
+			if (e.message.includes('already running')) {
+				console.warn(`[${correlationId}] Skipping truth refresh: ${e.message}`);
+				return {
+					timestamp: new Date().toISOString(),
+					trigger,
+					correlation_id: correlationId,
+					status: 'skipped',
+					duration_ms: Date.now() - startTime,
+					error: 'Job is already running',
+				};
+			}
+			throw e;
+		}
+
+		const schedule = parseRefreshSchedule(env.TRUTH_REFRESH_DAYS);
+		const windowDays = schedule[schedule.length - 1] + TRUTH_REFRESH_GRACE_DAYS;
+		const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+		const now = Math.floor(Date.now() / 1000);
+
+		const candidates = await getTruthRefreshCandidates(env, since);
+		if (runId) {
+			await tracker.heartbeat(runId);
+		}
+		const stale = candidates.filter((movie) => getTruthFreshness(movie.release_date, movie.last_fetched_at, now, schedule).stale);
+		console.log(`[${correlationId}] Truth refresh: ${stale.length} stale of ${candidates.length} movies released since ${since}`);
+
+		const jobIds = await queueGenerationJobs(
+			env,
+			stale.map((movie) => ({
+				type: 'refresh_truth' as const,
+				movieId: movie.id,
+				title: movie.title,
+				language: 'en',
+				correlationId,
+				cronRunId: runId,
+			}))
+		);
+
+		if (runId) {
+			await tracker.markDispatched(runId, jobIds.length);
+		}
+
+		return {
+			timestamp: new Date().toISOString(),
+			trigger,
+			correlation_id: correlationId,
+			movies_fetched: candidates.length,
+			movies_queued: jobIds.length,
+			duration_ms: Date.now() - startTime,
+			status: jobIds.length > 0 ? 'in_progress' : 'success',
+		};
+	} catch (error) {
+		console.error(`[${correlationId}] Truth refresh failed:`, error);
+		if (runId) {
+			await tracker.failRun(runId, error);
+		}
+		failure = error;
+		throw error;
+	} finally {
+		span.end(failure);
+	}
+}
+
+/**
+ * Runs a job that does its work inline (no queue messages) under its cron lock
+ * @param work - Returns the number of movies handled (if any) and job-specific counts for cron_runs.summary_json
+ */
+async function runTrackedJob(
+	env: Env,
+	jobName: string,
+	parent: Span,
+	work: (span: Span, tracker: CronTracker, runId: number) => Promise<{ movies?: number; summary: Record<string, number> }>
+): Promise<CronResult> {
+	return parent.trace(`cron.${jobName}`, {}, async (span) => {
+		const correlationId = span.correlationId;
+		const startTime = Date.now();
+		const trigger = correlationId.startsWith('cron-') ? 'scheduled' : 'manual';
+		const tracker = new CronTracker(env, jobName);
+		let runId: number;
+
+		try {
+			runId = await tracker.startRun();
+		} catch (e: any) {
+			if (e.message.includes('already running')) {
+				console.warn(`[${correlationId}] Skipping ${jobName}: ${e.message}`);
+				return {
+					timestamp: new Date().toISOString(),
+					trigger,
+					correlation_id: correlationId,
+					status: 'skipped',
+					duration_ms: Date.now() - startTime,
+					error: 'Job is already running',
+				};
+			}
+			throw e;
+		}
+
+		try {
+			const { movies, summary } = await work(span, tracker, runId);
+			await tracker.completeRun(runId, null, summary);
+			console.log(`[${correlationId}] ${jobName} completed:`, summary);
+
+			return {
+				timestamp: new Date().toISOString(),
+				trigger,
+				correlation_id: correlationId,
+				movies_fetched: movies,
+				summary,
+				duration_ms: Date.now() - startTime,
+				status: 'success',
+			};
+		} catch (error) {
+			console.error(`[${correlationId}] ${jobName} failed:`, error);
+			await tracker.failRun(runId, error);
+			throw error;
+		}
+	});
+}
+
+/**
+ * Refreshes the now_playing category (movies + category rows) from TMDB, without generating anything
+ */
+export async function runIngestNowPlaying(env: Env, parent: Span): Promise<CronResult> {
+	return runTrackedJob(env, 'ingest_now_playing', parent, async (span) => {
+		const response = await handleNowPlaying(env, span);
+		const data = (await response.json()) as NowPlayingResponse;
+		return { movies: data.movies.length, summary: { movies: data.movies.length } };
+	});
+}
+
+/**
+ * Refreshes the popular category and popularity scores from TMDB, without generating anything
+ */
+export async function runIngestPopular(env: Env, parent: Span): Promise<CronResult> {
+	return runTrackedJob(env, 'ingest_popular', parent, async (span) => {
+		const response = await handlePopularMovies(env, span);
+		const data = (await response.json()) as NowPlayingResponse;
+		return { movies: data.movies.length, summary: { movies: data.movies.length } };
+	});
+}
+
+/**
+ * Re-fetches IN streaming providers for every movie in the now_playing and popular categories
+ * A failed movie is counted and skipped; the lock lease is renewed as movies are processed
+ */
+export async function runProviderRefresh(env: Env, parent: Span): Promise<CronResult> {
+	return runTrackedJob(env, 'refresh_providers', parent, async (span, tracker, runId) => {
+		const movieIds = new Set<number>();
+		for (const category of ['now_playing', 'popular']) {
+			const { movies } = await getMoviesByCategory(env, category, 100);
+			movies.forEach((movie) => movieIds.add(movie.id));
+		}
+
+		let providers = 0;
+		let failed = 0;
+		for (const movieId of movieIds) {
+			try {
+				providers += await refreshWatchProviders(String(movieId), env, span);
+			} catch (error) {
+				failed++;
+				console.error(`[${span.correlationId}] Provider refresh failed for movie ${movieId}:`, error);
+			}
+			await tracker.heartbeat(runId);
+			await new Promise((resolve) => setTimeout(resolve, CRON_DELAY_MS));
+		}
+
+		return { movies: movieIds.size, summary: { movies: movieIds.size, providers, failed } };
+	});
+}
 
+/**
+ * Deletes expired R2 logs; objects/bytes removed are recorded in cron_runs.summary_json
+ */
+export async function runLogPurge(env: Env, parent: Span): Promise<CronResult> {
+	return runTrackedJob(env, 'purge_logs', parent, async (span, tracker, runId) => {
+		const result = await span.trace('r2.purge_logs', {}, () => purgeExpiredLogs(env, false, () => tracker.heartbeat(runId)));
+		return {
+			summary: { objects: result.objects, bytes: result.bytes, days: result.days.length, truncated: result.truncated ? 1 : 0 },
+		};
+	});
+}
+
+/**
+ * Runs a job outside scheduled() in its own trace, flushed to R2 when the job ends
+ */
+async function runInTrace(env: Env, job: CronJobDefinition, trace: Trace): Promise<CronResult> {
+	let status = 200;
+	trace.root.logRequest({ trigger: 'manual', job: job.name });
+
+	try {
+		const result = await job.run(env, trace.root);
+		trace.root.logResponse(status, result);
+		return result;
+	} catch (error) {
+		status = 500;
+		trace.root.logError(error, { job: job.name });
 		throw error;
 	} finally {
-		// Always flush logs to R2
-		await logger.flush(finalStatus);
+		await trace.flush(status);
 	}
 }
 
 /**
- * Manual trigger endpoint - allows triggering cron job via API
- * POST /cron/trigger
+ * Manual trigger endpoint - allows triggering a registered cron job via API
+ * POST /cron/:job/trigger (POST /cron/trigger runs movie_roast)
  *
  * Returns immediately with a correlation ID, and runs the cron job in the background.
- * Use GET /cron/status to check the result.
+ * Use GET /cron/status?job= to check the result.
  */
-export async function handleCronTrigger(env: Env, ctx?: ExecutionContext): Promise<Response> {
-	const correlationId = `manual-trigger-${Date.now()}`;
+export async function handleCronTrigger(env: Env, ctx?: ExecutionContext, jobName: string = 'movie_roast'): Promise<Response> {
+	const job = getCronJob(jobName);
+	if (!job) {
+		return json({ error: 'Not found', message: `Unknown cron job '${jobName}'. Jobs: ${CRON_JOBS.map((j) => j.name).join(', ')}` }, 404);
+	}
+
+	const trace = new Trace(env, `/cron/${job.name}/trigger`, 'MANUAL', `manual-trigger-${Date.now()}`);
+	const correlationId = trace.correlationId;
 
-	console.log(`[${correlationId}] Manual cron trigger initiated`);
+	console.log(`[${correlationId}] Manual cron trigger initiated: ${job.name}`);
 
 	// If ExecutionContext is provided, run in background
 	if (ctx) {
 		// Start the cron job in the background
 		ctx.waitUntil(
-			runDailyRoastGeneration(env, correlationId).catch((error) => {
+			runInTrace(env, job, trace).catch((error) => {
 				console.error(`[${correlationId}] Background cron execution failed:`, error);
 			})
 		);
@@ -166,9 +449,10 @@ export async function handleCronTrigger(env: Env, ctx?: ExecutionContext): Promi
 		return json(
 			{
 				message: 'Cron job started in background',
+				job: job.name,
 				correlation_id: correlationId,
 				status: 'started',
-				check_status_at: '/cron/status',
+				check_status_at: `/cron/status?job=${job.name}`,
 			},
 			202 // 202 Accepted - request accepted but processing not complete
 		);
@@ -177,7 +461,7 @@ export async function handleCronTrigger(env: Env, ctx?: ExecutionContext): Promi
 	// Fallback: synchronous execution (for testing without ExecutionContext)
 	try {
 		console.log(`[${correlationId}] Running cron job synchronously (no ExecutionContext)`);
-		const result = await runDailyRoastGeneration(env, correlationId);
+		const result = await runInTrace(env, job, trace);
 		return json(result, 200);
 	} catch (error) {
 		const errorMessage = error instanceof Error ? error.message : String(error);
@@ -186,16 +470,21 @@ export async function handleCronTrigger(env: Env, ctx?: ExecutionContext): Promi
 }
 
 /**
- * Status endpoint - returns recent runs from D1
- * GET /cron/status
+ * Status endpoint - returns recent runs from D1, for one job or all of them
+ * GET /cron/status?job=movie_roast
  */
-export async function handleCronStatus(env: Env): Promise<Response> {
+export async function handleCronStatus(params: URLSearchParams, env: Env): Promise<Response> {
+	const jobName = params.get('job');
+	if (jobName && !getCronJob(jobName)) {
+		return json({ error: 'Bad Request', message: `Unknown cron job '${jobName}'. Jobs: ${CRON_JOBS.map((j) => j.name).join(', ')}` }, 400);
+	}
+
 	try {
-		const tracker = new CronTracker(env, 'movie_roast');
-		const history = await tracker.getHistory(20);
+		const history = await getCronRuns(env, jobName, 20);
 		
 		return json({
-			job: 'movie_roast',
+			job: jobName || 'all',
+			jobs: CRON_JOBS.map(({ name, schedule, description }) => ({ name, schedule, description })),
 			runs: history
 		}, 200);
 	} catch (error) {
@@ -203,3 +492,47 @@ export async function handleCronStatus(env: Env): Promise<Response> {
 		return json({ error: 'Failed to fetch cron history' }, 500);
 	}
 }
+
+/**
+ * Per-movie queue outcome of a cron run
+ * GET /cron/runs/:id/jobs
+ */
+export async function handleCronRunJobs(runId: string, env: Env): Promise<Response> {
+	const run = await getCronRun(env, parseInt(runId));
+	if (!run) {
+		return json({ error: 'Not found', message: `Cron run ${runId} not found` }, 404);
+	}
+
+	const jobs = await getGenerationJobsByCronRun(env, run.id);
+	const counts: Record<GenerationJobStatus, number> = { queued: 0, running: 0, succeeded: 0, skipped: 0, failed: 0, dead_lettered: 0 };
+	for (const job of jobs) {
+		counts[job.status]++;
+	}
+
+	const response: CronRunJobsResponse = {
+		run_id: run.id,
+		job: run.job_name,
+		run_status: run.status,
+		counts,
+		jobs: jobs.map(toGenerationJob),
+	};
+	return json(response);
+}
+
+/**
+ * Force-releases a job's cron lock by marking its active runs abandoned
+ * For a run stuck without being reaped yet; messages it already queued still finish
+ * POST /admin/cron/:job/release
+ */
+export async function handleReleaseCronLock(jobName: string, env: Env): Promise<Response> {
+	if (!getCronJob(jobName)) {
+		return json({ error: 'Not found', message: `Unknown cron job '${jobName}'. Jobs: ${CRON_JOBS.map((j) => j.name).join(', ')}` }, 404);
+	}
+
+	const tracker = new CronTracker(env, jobName);
+	const released = await tracker.releaseLock('Lock force-released by admin');
+	console.warn(`[CronLock] Force-released ${jobName}: ${released.map((run) => `#${run.id}`).join(', ') || 'no active run'}`);
+
+	const response: CronLockReleaseResponse = { job: jobName, released };
+	return json(response);
+}
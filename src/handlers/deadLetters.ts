@@ -0,0 +1,132 @@
+import type { Env, DeadLetter, DeadLetterListResponse, DeadLetterReplayResponse, DeadLetterStatus, MovieQueueMessage } from '../types';
+import { getDeadLetters, getDeadLetterById, resolveDeadLetters, requeueGenerationJobs, restoreGenerationJobs, DBDeadLetter } from '../services/database';
+import { json } from '../utils/response';
+
+const DEAD_LETTER_STATUSES: DeadLetterStatus[] = ['pending', 'replayed', 'ignored'];
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 500;
+
+// Replay-all works through the oldest pending dead letters, this many per call
+const MAX_REPLAY_BATCH = 100;
+
+function toDeadLetter(deadLetter: DBDeadLetter): DeadLetter {
+	return {
+		id: deadLetter.id,
+		job_id: deadLetter.job_id,
+		type: deadLetter.type,
+		movie_id: deadLetter.movie_id,
+		title: deadLetter.title,
+		language: deadLetter.language,
+		correlation_id: deadLetter.correlation_id,
+		attempts: deadLetter.attempts,
+		last_error: deadLetter.last_error,
+		status: deadLetter.status,
+		received_at: new Date(deadLetter.received_at * 1000).toISOString(),
+		resolved_at: deadLetter.resolved_at ? new Date(deadLetter.resolved_at * 1000).toISOString() : null,
+	};
+}
+
+/**
+ * Sends pending dead letters back onto MOVIE_QUEUE with a fresh retry budget
+ * Their generation jobs go back to queued with no attempts, so cron run and job status reflect the replay
+ */
+async function replayDeadLetters(env: Env, deadLetters: DBDeadLetter[]): Promise<Response> {
+	if (deadLetters.length > 0) {
+		const jobIds = deadLetters.map((deadLetter) => deadLetter.job_id).filter((jobId): jobId is number => jobId !== null);
+
+		// Reset the jobs first: a consumer may pick up a message and finish it before sendBatch returns
+		const previousJobs = await requeueGenerationJobs(env, jobIds);
+		try {
+			await env.MOVIE_QUEUE.sendBatch(deadLetters.map((deadLetter) => ({ body: JSON.parse(deadLetter.message_json) as MovieQueueMessage })));
+		} catch (error) {
+			// Nothing was replayed, so the dead letters stay pending and the jobs as they were
+			await restoreGenerationJobs(env, previousJobs);
+			throw error;
+		}
+		await resolveDeadLetters(env, deadLetters.map((deadLetter) => deadLetter.id), 'replayed');
+		console.log(`[DLQ] Replayed ${deadLetters.length} dead letters: ${deadLetters.map((d) => d.id).join(', ')}`);
+	}
+
+	const response: DeadLetterReplayResponse = {
+		replayed: deadLetters.length,
+		dead_letters: deadLetters.map((deadLetter) => ({
+			...toDeadLetter(deadLetter),
+			status: 'replayed',
+			resolved_at: new Date().toISOString(),
+		})),
+	};
+	return json(response);
+}
+
+/**
+ * Loads a dead letter that can still be replayed or ignored
+ */
+async function getPendingDeadLetter(deadLetterId: string, env: Env): Promise<DBDeadLetter | Response> {
+	const deadLetter = await getDeadLetterById(env, parseInt(deadLetterId));
+	if (!deadLetter) {
+		return json({ error: 'Not found', message: `Dead letter ${deadLetterId} not found` }, 404);
+	}
+	if (deadLetter.status !== 'pending') {
+		return json({ error: 'Conflict', message: `Dead letter ${deadLetterId} is already ${deadLetter.status}` }, 409);
+	}
+	return deadLetter;
+}
+
+/**
+ * Lists dead-lettered queue messages, oldest first
+ * GET /admin/dead-letters?status=pending|replayed|ignored|all&limit=50
+ */
+export async function handleListDeadLetters(params: URLSearchParams, env: Env): Promise<Response> {
+	const status = params.get('status') || 'pending';
+	if (status !== 'all' && !DEAD_LETTER_STATUSES.includes(status as DeadLetterStatus)) {
+		return json({ error: 'Bad Request', message: `status must be one of: ${DEAD_LETTER_STATUSES.join(', ')}, all` }, 400);
+	}
+
+	const limit = params.has('limit') ? parseInt(params.get('limit')!) : DEFAULT_LIST_LIMIT;
+	if (isNaN(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+		return json({ error: 'Bad Request', message: `limit must be between 1 and ${MAX_LIST_LIMIT}` }, 400);
+	}
+
+	const deadLetters = await getDeadLetters(env, status === 'all' ? null : (status as DeadLetterStatus), limit);
+
+	const response: DeadLetterListResponse = {
+		status: status as DeadLetterStatus | 'all',
+		count: deadLetters.length,
+		dead_letters: deadLetters.map(toDeadLetter),
+	};
+	return json(response);
+}
+
+/**
+ * Replays one dead letter onto MOVIE_QUEUE
+ * POST /admin/dead-letters/:id/replay
+ */
+export async function handleReplayDeadLetter(deadLetterId: string, env: Env): Promise<Response> {
+	const deadLetter = await getPendingDeadLetter(deadLetterId, env);
+	if (deadLetter instanceof Response) return deadLetter;
+
+	return replayDeadLetters(env, [deadLetter]);
+}
+
+/**
+ * Replays the oldest pending dead letters (up to MAX_REPLAY_BATCH per call)
+ * POST /admin/dead-letters/replay
+ */
+export async function handleReplayAllDeadLetters(env: Env): Promise<Response> {
+	const deadLetters = await getDeadLetters(env, 'pending', MAX_REPLAY_BATCH);
+	return replayDeadLetters(env, deadLetters);
+}
+
+/**
+ * Marks a dead letter as ignored; it stays listed but can't be replayed
+ * POST /admin/dead-letters/:id/ignore
+ */
+export async function handleIgnoreDeadLetter(deadLetterId: string, env: Env): Promise<Response> {
+	const deadLetter = await getPendingDeadLetter(deadLetterId, env);
+	if (deadLetter instanceof Response) return deadLetter;
+
+	await resolveDeadLetters(env, [deadLetter.id], 'ignored');
+	const ignored = await getDeadLetterById(env, deadLetter.id);
+
+	return json(toDeadLetter(ignored!));
+}
@@ -0,0 +1,130 @@
+import type { Env, FeatureRoastRequest, FeaturedResponse, FeaturedRoast } from '../types';
+import { getFeaturedRoasts, getRoastById, setRoastFeatured, unsetRoastFeatured } from '../services/database';
+import { json } from '../utils/response';
+
+/**
+ * Parses an optional ISO timestamp into unix seconds
+ * Returns undefined when the value is present but not a valid date
+ */
+function parseTimestamp(value: string | null | undefined): number | null | undefined {
+	if (value === null || value === undefined || value === '') return null;
+	const ms = Date.parse(value);
+	return isNaN(ms) ? undefined : Math.floor(ms / 1000);
+}
+
+function toIso(seconds: number | null): string | null {
+	return seconds === null ? null : new Date(seconds * 1000).toISOString();
+}
+
+/**
+ * Currently featured roasts for the home screen carousel
+ * GET /featured
+ */
+export async function handleFeatured(env: Env): Promise<Response> {
+	const now = Math.floor(Date.now() / 1000);
+	const rows = await getFeaturedRoasts(env, now);
+
+	const roasts: FeaturedRoast[] = rows.map(({ movie, roast }) => {
+		let parsed = null;
+		try {
+			parsed = JSON.parse(roast.roast_json);
+		} catch {
+			console.error(`[FEATURED] Failed to parse roast ${roast.id}`);
+		}
+
+		return {
+			roast_id: roast.id,
+			language: roast.language,
+			rank: roast.featured_rank,
+			starts_at: toIso(roast.featured_starts_at),
+			ends_at: toIso(roast.featured_ends_at),
+			roast: parsed,
+			movie: {
+				id: movie.id,
+				title: movie.title,
+				release_date: movie.release_date,
+				rating: movie.vote_average,
+				votes: movie.vote_count,
+				poster_url: movie.poster_path ? `https://image.tmdb.org/t/p/w500${movie.poster_path}` : null,
+			},
+		};
+	});
+
+	const response: FeaturedResponse = {
+		generated_at: new Date(now * 1000).toISOString(),
+		roasts,
+	};
+
+	return json(response);
+}
+
+/**
+ * Feature a roast (optionally scheduled and ranked)
+ * PUT /roasts/:id/featured
+ * Body: { starts_at?: ISO string, ends_at?: ISO string, rank?: number }
+ */
+export async function handleFeatureRoast(roastId: string, req: Request, env: Env): Promise<Response> {
+	let body: FeatureRoastRequest = {};
+	const text = await req.text();
+	if (text) {
+		try {
+			body = JSON.parse(text) as FeatureRoastRequest;
+		} catch {
+			return json({ error: 'Bad Request', message: 'Body must be valid JSON' }, 400);
+		}
+	}
+
+	const startsAt = parseTimestamp(body.starts_at);
+	const endsAt = parseTimestamp(body.ends_at);
+	if (startsAt === undefined || endsAt === undefined) {
+		return json({ error: 'Bad Request', message: 'starts_at and ends_at must be ISO 8601 timestamps' }, 400);
+	}
+	if (startsAt !== null && endsAt !== null && endsAt <= startsAt) {
+		return json({ error: 'Bad Request', message: 'ends_at must be after starts_at' }, 400);
+	}
+
+	const rank = body.rank ?? null;
+	if (rank !== null && (!Number.isInteger(rank) || rank < 0)) {
+		return json({ error: 'Bad Request', message: 'rank must be a non-negative integer' }, 400);
+	}
+
+	const roast = await getRoastById(env, parseInt(roastId));
+	if (!roast) {
+		return json({ error: 'Not found', message: `Roast ${roastId} not found` }, 404);
+	}
+	if (!roast.is_active) {
+		return json({ error: 'Conflict', message: 'Only the active roast version can be featured' }, 409);
+	}
+
+	await setRoastFeatured(env, roast.id, { startsAt, endsAt, rank });
+	console.log(`[FEATURED] Featured roast ${roast.id} (movie ${roast.movie_id}) rank=${rank} window=${startsAt}-${endsAt}`);
+
+	return json({
+		roast_id: roast.id,
+		movie_id: roast.movie_id,
+		is_featured: true,
+		rank,
+		starts_at: toIso(startsAt),
+		ends_at: toIso(endsAt),
+	});
+}
+
+/**
+ * Remove a roast from the featured set
+ * DELETE /roasts/:id/featured
+ */
+export async function handleUnfeatureRoast(roastId: string, env: Env): Promise<Response> {
+	const roast = await getRoastById(env, parseInt(roastId));
+	if (!roast) {
+		return json({ error: 'Not found', message: `Roast ${roastId} not found` }, 404);
+	}
+
+	await unsetRoastFeatured(env, roast.id);
+	console.log(`[FEATURED] Unfeatured roast ${roast.id} (movie ${roast.movie_id})`);
+
+	return json({
+		roast_id: roast.id,
+		movie_id: roast.movie_id,
+		is_featured: false,
+	});
+}
@@ -0,0 +1,122 @@
+import type { Env, FeedCategory, FeedMovieCard, FeedResponse, FeedTruthSummary } from '../types';
+import { getMoviesWithRoastAndTruth, DBExtraction, DBRoast, FeedCursor } from '../services/database';
+import { json } from '../utils/response';
+import { parseLanguageAllowlist } from '../utils/iso639';
+
+const FEED_CATEGORIES: FeedCategory[] = ['now_playing', 'popular'];
+const DEFAULT_FEED_LIMIT = 20;
+const MAX_FEED_LIMIT = 50;
+
+/**
+ * Encodes the last row of a page as an opaque cursor (base64url of "position:id")
+ */
+function encodeCursor(cursor: FeedCursor): string {
+	return btoa(`${cursor.position}:${cursor.id}`).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes a cursor produced by encodeCursor, returns null if it is malformed
+ */
+function decodeCursor(raw: string): FeedCursor | null {
+	try {
+		const decoded = atob(raw.replace(/-/g, '+').replace(/_/g, '/'));
+		const match = decoded.match(/^(\d+):(\d+)$/);
+		if (!match) return null;
+		return { position: parseInt(match[1]), id: parseInt(match[2]) };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Builds a short truth summary from the stored Grok extraction
+ */
+function buildTruthSummary(extraction: DBExtraction): FeedTruthSummary {
+	let content: any = null;
+	try {
+		content = JSON.parse(extraction.content_json);
+	} catch {
+		// Keep the metadata even if the content is unreadable
+	}
+
+	return {
+		source: extraction.source,
+		model: extraction.model,
+		fetched_at: new Date(extraction.fetched_at * 1000).toISOString(),
+		summary: content?.plot?.detailedSummary || content?.plot?.summary || null,
+		critical_consensus: content?.reception?.criticalConsensus || null,
+		audience_sentiment: content?.reception?.audienceSentiment || null,
+	};
+}
+
+/**
+ * Parses the stored roast JSON, returns null if it is unreadable
+ */
+function parseRoast(roast: DBRoast): FeedMovieCard['roast'] {
+	try {
+		return JSON.parse(roast.roast_json);
+	} catch {
+		console.error(`[FEED] Failed to parse roast ${roast.id} for movie ${roast.movie_id}`);
+		return null;
+	}
+}
+
+/**
+ * Paginated feed of movie cards with their roast and truth summary
+ * GET /feed?category=now_playing|popular&limit=&cursor=&lang=
+ */
+export async function handleFeed(params: URLSearchParams, env: Env): Promise<Response> {
+	const category = (params.get('category') || 'now_playing') as FeedCategory;
+	if (!FEED_CATEGORIES.includes(category)) {
+		return json({ error: 'Bad Request', message: `category must be one of: ${FEED_CATEGORIES.join(', ')}` }, 400);
+	}
+
+	const limitParam = params.get('limit');
+	const limit = limitParam ? parseInt(limitParam) : DEFAULT_FEED_LIMIT;
+	if (isNaN(limit) || limit < 1 || limit > MAX_FEED_LIMIT) {
+		return json({ error: 'Bad Request', message: `limit must be between 1 and ${MAX_FEED_LIMIT}` }, 400);
+	}
+
+	const cursorParam = params.get('cursor');
+	const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+	if (cursorParam && !cursor) {
+		return json({ error: 'Bad Request', message: 'Invalid cursor' }, 400);
+	}
+
+	const language = (params.get('lang') || 'en').toLowerCase();
+	if (!parseLanguageAllowlist(env.ROAST_LANGUAGES).includes(language)) {
+		return json({ error: 'Bad Request', message: `Unsupported language '${language}'` }, 400);
+	}
+
+	// Fetch one extra row to know whether another page exists
+	const { results, total } = await getMoviesWithRoastAndTruth(env, category, limit + 1, cursor, language);
+	const page = results.slice(0, limit);
+	const last = page[page.length - 1];
+
+	const movies: FeedMovieCard[] = page.map((row) => {
+		const roast = row.roast ? parseRoast(row.roast) : null;
+		return {
+			id: row.id,
+			title: row.title,
+			release_date: row.release_date,
+			rating: row.vote_average,
+			votes: row.vote_count,
+			popularity: row.popularity,
+			poster_url: row.poster_path ? `https://image.tmdb.org/t/p/w500${row.poster_path}` : null,
+			has_roast: !!roast,
+			roast,
+			roast_generated_at: row.roast ? new Date(row.roast.created_at * 1000).toISOString() : null,
+			truth: row.truth ? buildTruthSummary(row.truth) : null,
+		};
+	});
+
+	const response: FeedResponse = {
+		category,
+		total,
+		limit,
+		next_cursor: results.length > limit && last ? encodeCursor({ position: last.position, id: last.id }) : null,
+		movies,
+	};
+
+	return json(response);
+}
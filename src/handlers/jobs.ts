@@ -0,0 +1,108 @@
+import type { Env, GenerationJob, GenerationJobType } from '../types';
+import { getGenerationJob, getOpenGenerationJob, insertGenerationJobs, getMovie, DBGenerationJob, NewGenerationJob } from '../services/database';
+import { json } from '../utils/response';
+
+// Cloudflare Queues limits sendBatch to 100 messages per call
+const QUEUE_BATCH_SIZE = 100;
+
+/**
+ * Where the result of a job can be read once it succeeded
+ */
+function resultUrl(job: DBGenerationJob): string {
+	if (job.type === 'roast') {
+		return job.language === 'en' ? `/movie/${job.movie_id}` : `/movie/${job.movie_id}?lang=${job.language}`;
+	}
+	return `/movie/${job.movie_id}/truth`;
+}
+
+export function toGenerationJob(job: DBGenerationJob): GenerationJob {
+	const toIso = (seconds: number | null) => (seconds ? new Date(seconds * 1000).toISOString() : null);
+
+	return {
+		job_id: job.id,
+		type: job.type,
+		movie_id: job.movie_id,
+		title: job.title,
+		language: job.language,
+		status: job.status,
+		cron_run_id: job.cron_run_id,
+		attempts: job.attempts,
+		created_at: new Date(job.created_at * 1000).toISOString(),
+		started_at: toIso(job.started_at),
+		finished_at: toIso(job.finished_at),
+		last_error: job.last_error,
+		result_url: job.status === 'succeeded' ? resultUrl(job) : null,
+	};
+}
+
+/**
+ * Records a generation_jobs row per movie and sends the matching MOVIE_QUEUE messages
+ * @returns Job IDs in input order
+ */
+export async function queueGenerationJobs(env: Env, jobs: NewGenerationJob[]): Promise<number[]> {
+	const jobIds: number[] = [];
+
+	for (let i = 0; i < jobs.length; i += QUEUE_BATCH_SIZE) {
+		const chunk = jobs.slice(i, i + QUEUE_BATCH_SIZE);
+		const chunkIds = await insertGenerationJobs(env, chunk);
+		await env.MOVIE_QUEUE.sendBatch(
+			chunk.map((job, index) => ({
+				body: {
+					movieId: job.movieId,
+					title: job.title,
+					correlationId: job.correlationId,
+					type: job.type,
+					language: job.language,
+					jobId: chunkIds[index],
+					cronRunId: job.cronRunId ?? undefined,
+				},
+			}))
+		);
+		jobIds.push(...chunkIds);
+	}
+
+	return jobIds;
+}
+
+/**
+ * Queues generation for a read that missed the cache, instead of running the pipeline inline
+ * A queued or running job for the same movie/type/language is reused, so repeated misses enqueue once
+ * Returns 202 with the job to poll at GET /jobs/:id
+ */
+export async function enqueueGenerationJob(
+	env: Env,
+	type: GenerationJobType,
+	tmdbId: string,
+	language: string,
+	correlationId: string
+): Promise<Response> {
+	const movieId = parseInt(tmdbId);
+
+	let job = await getOpenGenerationJob(env, type, movieId, language);
+	if (!job) {
+		// The movie may not be in D1 yet
+		const movie = await getMovie(env, movieId);
+		const [jobId] = await queueGenerationJobs(env, [{ type, movieId, title: movie?.title || `movie ${movieId}`, language, correlationId }]);
+		console.log(`[JOBS][${correlationId}] Queued ${type} job ${jobId} for movie ${movieId} (${language})`);
+		job = await getGenerationJob(env, jobId);
+	}
+
+	if (!job) {
+		throw new Error(`Generation job for movie ${movieId} was not stored`);
+	}
+
+	return json({ queued: true, status_url: `/jobs/${job.id}`, ...toGenerationJob(job) }, 202, { Location: `/jobs/${job.id}` });
+}
+
+/**
+ * Status of a generation job
+ * GET /jobs/:id
+ */
+export async function handleJobStatus(jobId: string, env: Env): Promise<Response> {
+	const job = await getGenerationJob(env, parseInt(jobId));
+	if (!job) {
+		return json({ error: 'Not found', message: `Job ${jobId} not found` }, 404);
+	}
+
+	return json(toGenerationJob(job));
+}
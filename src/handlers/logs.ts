@@ -0,0 +1,79 @@
+import type { Env } from '../types';
+import { purgeExpiredLogs, listLogs, findLog } from '../services/logs';
+import { runLogPurge } from './cron';
+import { json } from '../utils/response';
+import type { Span } from '../utils/tracing';
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 500;
+
+/**
+ * Purges R2 logs older than LOG_RETENTION_DAYS
+ * POST /admin/logs/purge?dry_run=false
+ * Dry run (the default) only reports what would be deleted; a real purge runs the purge_logs
+ * cron job (locked and tracked in cron_runs) within the request's trace and returns its result
+ */
+export async function handleLogPurge(params: URLSearchParams, env: Env, span: Span): Promise<Response> {
+	const dryRun = params.get('dry_run') ?? 'true';
+	if (dryRun !== 'true' && dryRun !== 'false') {
+		return json({ error: 'Bad Request', message: 'dry_run must be true or false' }, 400);
+	}
+
+	if (dryRun === 'true') {
+		return json(await purgeExpiredLogs(env, true));
+	}
+
+	const result = await runLogPurge(env, span);
+	return json(result, result.status === 'skipped' ? 409 : 200);
+}
+
+/**
+ * Lists one day's traces, filtered on R2 metadata (no document is downloaded)
+ * GET /admin/logs?date=YYYY-MM-DD&endpoint=/movie&status=5xx&movieId=123&limit=50&cursor=...
+ * date defaults to today (UTC); endpoint is a path prefix; status is exact (404) or a class (5xx)
+ */
+export async function handleListLogs(params: URLSearchParams, env: Env): Promise<Response> {
+	const date = params.get('date') || new Date().toISOString().split('T')[0];
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+		return json({ error: 'Bad Request', message: 'date must be YYYY-MM-DD' }, 400);
+	}
+
+	const status = params.get('status') || undefined;
+	if (status && !/^[1-5](\d{2}|xx)$/i.test(status)) {
+		return json({ error: 'Bad Request', message: 'status must be an HTTP status (404) or class (5xx)' }, 400);
+	}
+
+	const movieId = params.get('movieId') || undefined;
+	if (movieId && !/^\d+$/.test(movieId)) {
+		return json({ error: 'Bad Request', message: 'movieId must be a TMDB movie id' }, 400);
+	}
+
+	const limit = params.has('limit') ? parseInt(params.get('limit')!) : DEFAULT_LIST_LIMIT;
+	if (isNaN(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+		return json({ error: 'Bad Request', message: `limit must be between 1 and ${MAX_LIST_LIMIT}` }, 400);
+	}
+
+	return json(
+		await listLogs(env, {
+			date,
+			endpoint: params.get('endpoint') || undefined,
+			status,
+			movieId,
+			limit,
+			cursor: params.get('cursor') || undefined,
+		})
+	);
+}
+
+/**
+ * Full trace document for a correlation id, whichever day it was written
+ * GET /admin/logs/:correlationId
+ */
+export async function handleGetLog(correlationId: string, env: Env): Promise<Response> {
+	const log = await findLog(env, correlationId);
+	if (!log) {
+		return json({ error: 'Not found', message: `No log found for correlation id ${correlationId}` }, 404);
+	}
+
+	return json(log);
+}
@@ -1,9 +1,28 @@
-import type { Env, MovieMeta, MovieTruth, ExtractedMovieData } from '../types';
+import type {
+	Env,
+	MovieMeta,
+	MovieTruth,
+	MovieRoast,
+	ExtractedMovieData,
+	ExtractionCompleteness,
+	TMDBMovieDetails,
+	RegenerateRoastRequest,
+	RegenerateRoastResponse,
+	RoastFieldDiff,
+	ApiPrincipal,
+	GenerationMode,
+} from '../types';
 import { fetchMovieDetails, fetchWatchProviders } from '../services/tmdb';
-import { fetchBraveSearch, extractWithGrok, StoredSearchResult } from '../services/brave';
+import { fetchBraveSearch, extractWithGrok, StoredSearchResult, GrokExtractionResponse } from '../services/brave';
 import { generateRoast } from '../services/claude';
+import { assertWithinBudget } from '../services/costs';
 import { json } from '../utils/response';
-import { Logger } from '../utils/logger';
+import type { Span } from '../utils/tracing';
+import { getLanguageName, parseLanguageAllowlist } from '../utils/iso639';
+import { normalizeExtraction } from '../utils/extractionValidator';
+import { getTruthFreshness, parseRefreshSchedule } from '../utils/truthFreshness';
+import { USD_TO_INR } from '../constants';
+import { enqueueGenerationJob } from './jobs';
 import {
 	getLatestExtraction,
 	getMovie,
@@ -13,8 +32,58 @@ import {
 	insertExtraction,
 	saveStreamingProviders,
 	DBExtraction,
+	DBRoast,
 } from '../services/database';
 
+/**
+ * Picks the MovieMeta fields from a TMDB details response
+ */
+function buildMovieMeta(movie: TMDBMovieDetails): MovieMeta {
+	return {
+		adult: movie.adult,
+		backdrop_path: movie.backdrop_path,
+		belongs_to_collection: movie.belongs_to_collection,
+		budget: movie.budget,
+		genres: movie.genres,
+		homepage: movie.homepage,
+		id: movie.id,
+		imdb_id: movie.imdb_id,
+		origin_country: movie.origin_country,
+		original_language: movie.original_language,
+		original_title: movie.original_title,
+		overview: movie.overview,
+		popularity: movie.popularity,
+		poster_path: movie.poster_path,
+		production_companies: movie.production_companies,
+		production_countries: movie.production_countries,
+		release_date: movie.release_date,
+		revenue: movie.revenue,
+		runtime: movie.runtime,
+		spoken_languages: movie.spoken_languages,
+		status: movie.status,
+		tagline: movie.tagline,
+		title: movie.title,
+		video: movie.video,
+		vote_average: movie.vote_average,
+		vote_count: movie.vote_count,
+	};
+}
+
+/**
+ * Returns a 400 response if the language is not in the ROAST_LANGUAGES allowlist
+ */
+function validateRoastLanguage(language: string, env: Env): Response | null {
+	const allowed = parseLanguageAllowlist(env.ROAST_LANGUAGES);
+	if (allowed.includes(language)) return null;
+	return json(
+		{
+			error: 'Bad Request',
+			message: `Unsupported language '${language}'. Supported: ${allowed.join(', ')}`,
+		},
+		400
+	);
+}
+
 /**
  * Builds a MovieTruth object from a DB extraction record
  */
@@ -23,9 +92,10 @@ function buildMovieTruthFromExtraction(dbExtraction: DBExtraction): MovieTruth {
 		source: dbExtraction.source,
 		fetchedAt: new Date(dbExtraction.fetched_at * 1000).toISOString(),
 		model: dbExtraction.model,
-		costEstimateINR: 0,
+		costEstimateINR: (dbExtraction.total_cost || 0) * USD_TO_INR,
 		citations: dbExtraction.citations_json ? JSON.parse(dbExtraction.citations_json) : [],
 		content: dbExtraction.content_json,
+		completeness: dbExtraction.completeness_json ? JSON.parse(dbExtraction.completeness_json) : null,
 		usage: {
 			prompt_tokens: dbExtraction.prompt_tokens || 0,
 			completion_tokens: dbExtraction.completion_tokens || 0,
@@ -52,66 +122,64 @@ function hasValidEvidence(dbExtraction: DBExtraction | null): boolean {
 
 /**
  * Checks if content_json is valid (not empty/null)
+ * Requires at least a plot summary or critical consensus after normalization
  */
 function hasValidContent(dbExtraction: DBExtraction | null): boolean {
 	if (!dbExtraction) return false;
 	if (!dbExtraction.content_json) return false;
 	try {
-		const parsed = JSON.parse(dbExtraction.content_json);
+		const { extraction } = normalizeExtraction(JSON.parse(dbExtraction.content_json));
 		// Check if it has actual extracted data
-		return parsed && (parsed.title || parsed.plot || parsed.reception);
+		return extraction.plot.detailedSummary !== 'N/A' || extraction.reception.criticalConsensus !== 'N/A';
 	} catch {
 		return false;
 	}
 }
 
-export async function handleMovieTruth(tmdbId: string, env: Env, correlationId: string) {
+/**
+ * Latest truth for a movie; on a miss, mode decides between researching inline, queueing a job (202) or 404
+ */
+export async function handleMovieTruth(tmdbId: string, env: Env, span: Span, mode: GenerationMode = 'inline') {
 	// 1. Get from D1 first
 	const dbExtraction = await getLatestExtraction(env, parseInt(tmdbId));
 
 	if (dbExtraction && dbExtraction.content_json) {
 		const truth = buildMovieTruthFromExtraction(dbExtraction);
+		const dbMovie = await getMovie(env, parseInt(tmdbId));
+		const freshness = getTruthFreshness(
+			dbMovie?.release_date ?? null,
+			dbExtraction.fetched_at,
+			Math.floor(Date.now() / 1000),
+			parseRefreshSchedule(env.TRUTH_REFRESH_DAYS)
+		);
 		return json({
 			cached: true,
 			tmdbId,
+			stale: freshness.stale,
+			next_refresh_at: freshness.next_refresh_at,
 			truth,
 		});
 	}
 
+	if (mode === 'cache_only') {
+		return json({ error: 'Not found', message: `No truth researched yet for movie ${tmdbId}` }, 404);
+	}
+	if (mode === 'queue') {
+		return enqueueGenerationJob(env, 'truth', tmdbId, 'en', span.correlationId);
+	}
+
 	// 2. If not in DB, fetch metadata and generate
-	const movie = await fetchMovieDetails(tmdbId, env, correlationId);
+	const movie = await fetchMovieDetails(tmdbId, env, span);
 
-	const movieMeta: MovieMeta = {
-		adult: movie.adult,
-		backdrop_path: movie.backdrop_path,
-		belongs_to_collection: movie.belongs_to_collection,
-		budget: movie.budget,
-		genres: movie.genres,
-		homepage: movie.homepage,
-		id: movie.id,
-		imdb_id: movie.imdb_id,
-		origin_country: movie.origin_country,
-		original_language: movie.original_language,
-		original_title: movie.original_title,
-		overview: movie.overview,
-		popularity: movie.popularity,
-		poster_path: movie.poster_path,
-		production_companies: movie.production_companies,
-		production_countries: movie.production_countries,
-		release_date: movie.release_date,
-		revenue: movie.revenue,
-		runtime: movie.runtime,
-		spoken_languages: movie.spoken_languages,
-		status: movie.status,
-		tagline: movie.tagline,
-		title: movie.title,
-		video: movie.video,
-		vote_average: movie.vote_average,
-		vote_count: movie.vote_count,
-	};
+	const movieMeta = buildMovieMeta(movie);
+
+	// The extraction references the movies row, which may not exist yet
+	await span.trace('d1.upsert_movie', { movieId: tmdbId }, () => upsertMovie(env, movie, 'en', true));
 
 	// Generate truth using the orchestration logic
-	const truth = await getOrCreateTruth(tmdbId, movieMeta, env, correlationId);
+	const truth = await getOrCreateTruth(tmdbId, movieMeta, env, span);
+	const now = Math.floor(Date.now() / 1000);
+	const freshness = getTruthFreshness(movie.release_date, now, now, parseRefreshSchedule(env.TRUTH_REFRESH_DAYS));
 
 	return json({
 		cached: false,
@@ -120,125 +188,189 @@ export async function handleMovieTruth(tmdbId: string, env: Env, correlationId:
 			title: movie.title,
 			release_date: movie.release_date,
 		},
+		stale: freshness.stale,
+		next_refresh_at: freshness.next_refresh_at,
 		truth,
 	});
 }
 
+/**
+ * Re-runs Brave search + Grok extraction for a movie and stores a new extractions row
+ * Used by the truth refresh queue messages; the active roast is left untouched
+ */
+export async function refreshMovieTruth(tmdbId: string, env: Env, span: Span): Promise<MovieTruth> {
+	const movie = await fetchMovieDetails(tmdbId, env, span);
+	await span.trace('d1.upsert_movie', { movieId: tmdbId }, () => upsertMovie(env, movie, 'en', true));
+	return getOrCreateTruth(tmdbId, buildMovieMeta(movie), env, span, true);
+}
+
 /**
  * Orchestrates the extraction flow:
  * 1. Query DB for extraction once
  * 2. If evidence is missing → fetch Brave search
  * 3. If content is missing → call Grok extraction
  * 4. Store new extraction if anything was fetched
+ * With forceRefresh, the cached extraction is ignored and both steps run again
  */
 async function getOrCreateTruth(
 	tmdbId: string,
 	movieMeta: MovieMeta,
 	env: Env,
-	correlationId: string
+	parent: Span,
+	forceRefresh: boolean = false
 ): Promise<MovieTruth> {
-	const logger = new Logger(env, '/api/movie-truth', 'GET', correlationId);
-
-	// 1. Query DB for existing extraction (single query)
-	const dbExtraction = await getLatestExtraction(env, parseInt(tmdbId));
+	return parent.trace('truth', { movieId: tmdbId, forceRefresh }, async (span) => {
+		// 1. Query DB for existing extraction (single query)
+		const dbExtraction = forceRefresh ? null : await getLatestExtraction(env, parseInt(tmdbId));
 
-	const hasEvidence = hasValidEvidence(dbExtraction);
-	const hasContent = hasValidContent(dbExtraction);
+		const hasEvidence = hasValidEvidence(dbExtraction);
+		const hasContent = hasValidContent(dbExtraction);
 
-	// 2. If we have everything, return cached
-	if (hasEvidence && hasContent && dbExtraction) {
-		console.log(`[EXTRACTION] Using cached extraction for movie ${tmdbId}`);
-		return buildMovieTruthFromExtraction(dbExtraction);
-	}
+		// 2. If we have everything, return cached
+		if (hasEvidence && hasContent && dbExtraction) {
+			console.log(`[EXTRACTION] Using cached extraction for movie ${tmdbId}`);
+			return buildMovieTruthFromExtraction(dbExtraction);
+		}
 
-	// 3. Determine what we need to fetch
-	let evidence: ExtractedMovieData | null = null;
-	let searchResult: StoredSearchResult | null = null;
-	let citations: string[] = [];
-
-	// If we have cached evidence, use it
-	if (hasEvidence && dbExtraction) {
-		console.log(`[EXTRACTION] Using cached evidence for movie ${tmdbId}`);
-		evidence = JSON.parse(dbExtraction.evidence_json);
-		citations = dbExtraction.citations_json ? JSON.parse(dbExtraction.citations_json) : [];
-		// Build a minimal search result for Grok
-		searchResult = {
-			source: 'brave-search-api',
-			fetchedAt: new Date(dbExtraction.fetched_at * 1000).toISOString(),
-			query: '',
-			data: evidence!,
-			citations,
-		};
-	} else {
-		// Fetch fresh evidence from Brave
-		console.log(`[EXTRACTION] Fetching Brave search for movie ${tmdbId}`);
-		const braveResult = await fetchBraveSearch(tmdbId, movieMeta, env, logger);
-		searchResult = braveResult.searchResult;
-		evidence = searchResult.data;
-		citations = searchResult.citations;
-	}
+		// 3. Determine what we need to fetch
+		let evidence: ExtractedMovieData | null = null;
+		let searchResult: StoredSearchResult | null = null;
+		let citations: string[] = [];
+		let searchCost = 0;
+
+		// If we have cached evidence, use it
+		if (hasEvidence && dbExtraction) {
+			console.log(`[EXTRACTION] Using cached evidence for movie ${tmdbId}`);
+			evidence = JSON.parse(dbExtraction.evidence_json);
+			citations = dbExtraction.citations_json ? JSON.parse(dbExtraction.citations_json) : [];
+			// Build a minimal search result for Grok
+			searchResult = {
+				source: 'brave-search-api',
+				fetchedAt: new Date(dbExtraction.fetched_at * 1000).toISOString(),
+				query: '',
+				data: evidence!,
+				citations,
+			};
+		} else {
+			// Evidence is only worth paying for if Grok can extract it
+			if (!hasContent) {
+				await assertWithinBudget(env, 'grok');
+			}
+			// Fetch fresh evidence from Brave
+			console.log(`[EXTRACTION] Fetching Brave search for movie ${tmdbId}`);
+			const braveResult = await fetchBraveSearch(tmdbId, movieMeta, env, span);
+			searchResult = braveResult.searchResult;
+			searchCost = braveResult.cost;
+			evidence = searchResult.data;
+			citations = searchResult.citations;
+		}
 
-	// 4. Determine if we need to extract content
-	let extraction: any = null;
-	let usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, total_cost: 0 };
+		// 4. Determine if we need to extract content
+		let extraction: GrokExtractionResponse;
+		let completeness: ExtractionCompleteness;
+		let usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, total_cost: 0 };
+
+		if (hasContent && dbExtraction) {
+			// Use cached content
+			console.log(`[EXTRACTION] Using cached content for movie ${tmdbId}`);
+			// Normalize so older rows match the current extraction shape
+			({ extraction, completeness } = normalizeExtraction(JSON.parse(dbExtraction.content_json)));
+			usage = {
+				prompt_tokens: dbExtraction.prompt_tokens || 0,
+				completion_tokens: dbExtraction.completion_tokens || 0,
+				total_tokens: dbExtraction.total_tokens || 0,
+				total_cost: dbExtraction.total_cost || 0,
+			};
+		} else {
+			// Extract content using Grok
+			console.log(`[EXTRACTION] Calling Grok extraction for movie ${tmdbId}`);
+			const grokResult = await extractWithGrok(searchResult!, movieMeta, env, span);
+			extraction = grokResult.extraction;
+			completeness = grokResult.completeness;
+			usage = {
+				prompt_tokens: grokResult.usage.prompt_tokens,
+				completion_tokens: grokResult.usage.completion_tokens,
+				total_tokens: grokResult.usage.total_tokens,
+				// Brave + Grok spend for this extraction (USD)
+				total_cost: searchCost + grokResult.usage.total_cost,
+			};
+		}
 
-	if (hasContent && dbExtraction) {
-		// Use cached content
-		console.log(`[EXTRACTION] Using cached content for movie ${tmdbId}`);
-		extraction = JSON.parse(dbExtraction.content_json);
-		usage = {
-			prompt_tokens: dbExtraction.prompt_tokens || 0,
-			completion_tokens: dbExtraction.completion_tokens || 0,
-			total_tokens: dbExtraction.total_tokens || 0,
-			total_cost: dbExtraction.total_cost || 0,
-		};
-	} else {
-		// Extract content using Grok
-		console.log(`[EXTRACTION] Calling Grok extraction for movie ${tmdbId}`);
-		const grokResult = await extractWithGrok(searchResult!, movieMeta, env, logger);
-		extraction = grokResult.extraction;
-		usage = {
-			prompt_tokens: grokResult.usage.prompt_tokens,
-			completion_tokens: grokResult.usage.completion_tokens,
-			total_tokens: grokResult.usage.total_tokens,
-			total_cost: 0,
-		};
-	}
+		// 5. If we fetched anything new, store in DB
+		if (!hasEvidence || !hasContent) {
+			console.log(`[EXTRACTION] Storing new extraction for movie ${tmdbId}`);
+			await span.trace('d1.insert_extraction', { movieId: tmdbId }, () =>
+				insertExtraction(env, parseInt(tmdbId), {
+					source: 'grok-extraction',
+					model: 'grok-4-1-fast-non-reasoning',
+					content: extraction,
+					evidence: evidence,
+					citations,
+					usage,
+					completeness,
+				})
+			);
+		}
 
-	// 5. If we fetched anything new, store in DB
-	if (!hasEvidence || !hasContent) {
-		console.log(`[EXTRACTION] Storing new extraction for movie ${tmdbId}`);
-		await insertExtraction(env, parseInt(tmdbId), {
+		// 6. Build and return MovieTruth
+		return {
 			source: 'grok-extraction',
+			fetchedAt: new Date().toISOString(),
 			model: 'grok-4-1-fast-non-reasoning',
-			content: extraction,
-			evidence: evidence,
+			costEstimateINR: usage.total_cost * USD_TO_INR,
 			citations,
-			usage,
-		});
-	}
+			content: JSON.stringify(extraction, null, 2),
+			completeness,
+			usage: {
+				prompt_tokens: usage.prompt_tokens,
+				completion_tokens: usage.completion_tokens,
+				total_tokens: usage.total_tokens,
+				tool_calls: 0,
+				total_cost: usage.total_cost,
+			},
+		};
+	});
+}
 
-	// 6. Build and return MovieTruth
-	return {
-		source: 'grok-extraction',
-		fetchedAt: new Date().toISOString(),
-		model: 'grok-4-1-fast-non-reasoning',
-		costEstimateINR: 0,
-		citations,
-		content: JSON.stringify(extraction, null, 2),
-		usage: {
-			prompt_tokens: usage.prompt_tokens,
-			completion_tokens: usage.completion_tokens,
-			total_tokens: usage.total_tokens,
-			tool_calls: 0,
-			total_cost: usage.total_cost,
-		},
-	};
+/**
+ * Fetches the movie's IN streaming (flatrate) providers from TMDB and replaces the stored ones
+ * A movie that left streaming ends up with none
+ * @returns Number of providers saved
+ */
+export async function refreshWatchProviders(tmdbId: string, env: Env, span: Span): Promise<number> {
+	const watchProviders = await fetchWatchProviders(tmdbId, env, span);
+	const region = watchProviders.results['IN'];
+	const providersToSave = (region?.flatrate || []).map((p) => ({
+		tmdb_movie_id: parseInt(tmdbId),
+		region: 'IN',
+		provider_id: p.provider_id,
+		provider_name: p.provider_name,
+		logo_path: p.logo_path,
+		type: 'flatrate',
+		link: region.link,
+	}));
+
+	await span.trace('d1.save_providers', { movieId: tmdbId }, () => saveStreamingProviders(env, parseInt(tmdbId), 'IN', providersToSave));
+	console.log(`[WATCH_PROVIDERS] Saved ${providersToSave.length} providers for movie ${tmdbId}`);
+	return providersToSave.length;
 }
 
-export async function handleMovieRoast(tmdbId: string, env: Env, correlationId: string) {
+/**
+ * Active roast for a movie; on a miss, mode decides between generating inline, queueing a job (202) or 404
+ */
+export async function handleMovieRoast(
+	tmdbId: string,
+	env: Env,
+	span: Span,
+	language: string = 'en',
+	mode: GenerationMode = 'inline'
+) {
+	language = language.toLowerCase();
+	const languageError = validateRoastLanguage(language, env);
+	if (languageError) return languageError;
+
 	// 1. Check D1 for existing roast (source of truth)
-	const dbRoast = await getRoast(env, parseInt(tmdbId));
+	const dbRoast = await getRoast(env, parseInt(tmdbId), language);
 
 	if (dbRoast && dbRoast.is_active) {
 		// Reconstruct response from D1
@@ -248,6 +380,7 @@ export async function handleMovieRoast(tmdbId: string, env: Env, correlationId:
 		const result = {
 			movie: dbMovie,
 			roast,
+			language,
 			generated_at: new Date(dbRoast.created_at * 1000).toISOString(),
 			disclaimer: 'Satire. Facts unchanged.',
 			truth_source: 'grok-extraction',
@@ -257,9 +390,16 @@ export async function handleMovieRoast(tmdbId: string, env: Env, correlationId:
 		return json({ cached: true, ...result });
 	}
 
+	if (mode === 'cache_only') {
+		return json({ error: 'Not found', message: `No roast generated yet for movie ${tmdbId}` }, 404);
+	}
+	if (mode === 'queue') {
+		return enqueueGenerationJob(env, 'roast', tmdbId, language, span.correlationId);
+	}
+
 	// 2. No D1 roast record - generate new roast
 	// Fetch basic movie metadata from TMDB
-	const movie = await fetchMovieDetails(tmdbId, env, correlationId);
+	const movie = await fetchMovieDetails(tmdbId, env, span);
 
 	// Check for required images (at least poster OR backdrop)
 	if (!movie.poster_path && !movie.backdrop_path) {
@@ -271,69 +411,31 @@ export async function handleMovieRoast(tmdbId: string, env: Env, correlationId:
 		});
 	}
 
-	const movieMeta: MovieMeta = {
-		adult: movie.adult,
-		backdrop_path: movie.backdrop_path,
-		belongs_to_collection: movie.belongs_to_collection,
-		budget: movie.budget,
-		genres: movie.genres,
-		homepage: movie.homepage,
-		id: movie.id,
-		imdb_id: movie.imdb_id,
-		origin_country: movie.origin_country,
-		original_language: movie.original_language,
-		original_title: movie.original_title,
-		overview: movie.overview,
-		popularity: movie.popularity,
-		poster_path: movie.poster_path,
-		production_companies: movie.production_companies,
-		production_countries: movie.production_countries,
-		release_date: movie.release_date,
-		revenue: movie.revenue,
-		runtime: movie.runtime,
-		spoken_languages: movie.spoken_languages,
-		status: movie.status,
-		tagline: movie.tagline,
-		title: movie.title,
-		video: movie.video,
-		vote_average: movie.vote_average,
-		vote_count: movie.vote_count,
-	};
+	const movieMeta = buildMovieMeta(movie);
 
 	// 3. Save movie to D1
-	await upsertMovie(env, movie, 'en', true);
+	await span.trace('d1.upsert_movie', { movieId: tmdbId }, () => upsertMovie(env, movie, 'en', true));
 
 	// 4. Fetch and Save Watch Providers (IN)
 	try {
-		const watchProviders = await fetchWatchProviders(tmdbId, env, correlationId);
-		if (watchProviders.results['IN'] && watchProviders.results['IN'].flatrate) {
-			const providersToSave = watchProviders.results['IN'].flatrate.map((p) => ({
-				tmdb_movie_id: parseInt(tmdbId),
-				region: 'IN',
-				provider_id: p.provider_id,
-				provider_name: p.provider_name,
-				logo_path: p.logo_path,
-				type: 'flatrate',
-				link: watchProviders.results['IN'].link,
-			}));
-			await saveStreamingProviders(env, parseInt(tmdbId), 'IN', providersToSave);
-			console.log(`[WATCH_PROVIDERS] Saved ${providersToSave.length} providers for movie ${tmdbId}`);
-		}
+		await refreshWatchProviders(tmdbId, env, span);
 	} catch (err) {
 		console.error(`[WATCH_PROVIDERS] Failed to fetch/save providers for ${tmdbId}:`, err);
 		// Swallow error to not block roasting
 	}
 
 	// 5. Get or create movie truth (single DB query, conditional API calls)
-	const truth = await getOrCreateTruth(tmdbId, movieMeta, env, correlationId);
+	const truth = await getOrCreateTruth(tmdbId, movieMeta, env, span);
 
-	// 6. Generate satire using the truth data
-	const roast = await generateRoast(movieMeta, truth, env, correlationId);
+	// 6. Generate satire using the truth data (truth is shared across languages)
+	console.log(`[ROAST] Generating ${getLanguageName(language)} roast for movie ${tmdbId}`);
+	const roast = await generateRoast(movieMeta, truth, env, span, language);
 
 	// 7. Build result
 	const result = {
 		movie: movieMeta,
 		roast,
+		language,
 		generated_at: new Date().toISOString(),
 		disclaimer: 'Satire. Facts unchanged.',
 		truth_source: truth.source,
@@ -341,7 +443,94 @@ export async function handleMovieRoast(tmdbId: string, env: Env, correlationId:
 	};
 
 	// 8. Store roast in D1 (source of truth)
-	await upsertRoast(env, movie.id, roast);
+	await span.trace('d1.upsert_roast', { movieId: tmdbId, language }, () => upsertRoast(env, movie.id, roast, language));
 
 	return json({ cached: false, ...result });
 }
+
+const ROAST_FIELDS: (keyof MovieRoast)[] = ['headline', 'overview', 'roast', 'reception', 'chips', 'similar_movies', 'shareable_caption'];
+
+/**
+ * Builds a field-by-field comparison of two roasts
+ */
+function diffRoasts(oldRoast: MovieRoast | null, newRoast: MovieRoast): Record<keyof MovieRoast, RoastFieldDiff> {
+	const diff = {} as Record<keyof MovieRoast, RoastFieldDiff>;
+	for (const field of ROAST_FIELDS) {
+		const oldValue = oldRoast ? oldRoast[field] ?? null : null;
+		const newValue = newRoast[field] ?? null;
+		diff[field] = {
+			old: oldValue,
+			new: newValue,
+			changed: JSON.stringify(oldValue) !== JSON.stringify(newValue),
+		};
+	}
+	return diff;
+}
+
+/**
+ * Forces a fresh roast for a movie, replacing the active version
+ * POST /movie/:id/regenerate
+ * Body: { reason: string, refresh_truth?: boolean, requested_by?: string }
+ * The regeneration is attributed to the calling API key; requested_by is appended as a note (e.g. "admin-scripts:alice")
+ */
+export async function handleRegenerateRoast(tmdbId: string, req: Request, env: Env, span: Span, principal: ApiPrincipal) {
+	let body: RegenerateRoastRequest;
+	try {
+		body = (await req.json()) as RegenerateRoastRequest;
+	} catch {
+		return json({ error: 'Bad Request', message: 'Body must be valid JSON' }, 400);
+	}
+
+	const reason = typeof body?.reason === 'string' ? body.reason.trim() : '';
+	if (!reason || reason.length > 500) {
+		return json({ error: 'Bad Request', message: 'reason is required (max 500 characters)' }, 400);
+	}
+
+	const refreshTruth = body.refresh_truth === true;
+	const requestedBy =
+		typeof body.requested_by === 'string' && body.requested_by.trim() ? `${principal.name}:${body.requested_by.trim()}` : principal.name;
+	const language = typeof body.language === 'string' ? body.language.toLowerCase() : 'en';
+	const languageError = validateRoastLanguage(language, env);
+	if (languageError) return languageError;
+
+	// 1. Capture the current version before it gets deactivated
+	const previous: DBRoast | null = await getRoast(env, parseInt(tmdbId), language);
+	const previousRoast: MovieRoast | null = previous ? JSON.parse(previous.roast_json) : null;
+
+	// 2. Fresh TMDB metadata (also refreshes the movies row)
+	const movie = await fetchMovieDetails(tmdbId, env, span);
+	if (!movie.poster_path && !movie.backdrop_path) {
+		return json({ error: 'Unprocessable Entity', message: 'Missing both poster and backdrop', tmdbId }, 422);
+	}
+
+	const movieMeta = buildMovieMeta(movie);
+	await span.trace('d1.upsert_movie', { movieId: tmdbId }, () => upsertMovie(env, movie, 'en', true));
+
+	// 3. Reuse or re-research the truth, then generate
+	console.log(`[REGENERATE] Movie ${tmdbId} by ${requestedBy} (refresh_truth=${refreshTruth}): ${reason}`);
+	const truth = await getOrCreateTruth(tmdbId, movieMeta, env, span, refreshTruth);
+	const roast = await generateRoast(movieMeta, truth, env, span, language);
+
+	// 4. Store as the new active version with the regeneration metadata
+	const roastId = await span.trace('d1.upsert_roast', { movieId: tmdbId, language }, () =>
+		upsertRoast(env, movie.id, roast, language, { reason, requestedBy })
+	);
+
+	const diff = diffRoasts(previousRoast, roast);
+	const response: RegenerateRoastResponse = {
+		movie_id: movie.id,
+		language,
+		reason,
+		requested_by: requestedBy,
+		truth_refreshed: refreshTruth,
+		truth_fetched_at: truth.fetchedAt,
+		old: previous && previousRoast
+			? { roast_id: previous.id, created_at: new Date(previous.created_at * 1000).toISOString(), roast: previousRoast }
+			: null,
+		new: { roast_id: roastId, created_at: new Date().toISOString(), roast },
+		changed_fields: ROAST_FIELDS.filter((field) => diff[field].changed),
+		diff,
+	};
+
+	return json(response);
+}
@@ -2,12 +2,13 @@ import type { Env, NowPlayingMovie, TMDBNowPlayingMovie } from '../types';
 import { fetchNowPlaying } from '../services/tmdb';
 import { upsertMovie } from '../services/database';
 import { json } from '../utils/response';
+import type { Span } from '../utils/tracing';
 
-export async function handleNowPlaying(env: Env): Promise<Response> {
+export async function handleNowPlaying(env: Env, span: Span): Promise<Response> {
 	console.log('[NOW_PLAYING] Fetching from TMDB...');
 
 	// Fetch from TMDB
-	const data = await fetchNowPlaying(env);
+	const data = await fetchNowPlaying(env, span);
 
 	// Save movies to D1 (source of truth) - WITHOUT updating popularity
 	console.log(`[NOW_PLAYING] Saving ${data.results.length} movies to D1...`);
@@ -53,11 +54,12 @@ export async function handleNowPlaying(env: Env): Promise<Response> {
 	}
 
 	// Atomically refresh category: clear old entries and insert new ones in a single batch
+	// position keeps the TMDB order, which feed cursors page through across refreshes
 	const now = Math.floor(Date.now() / 1000);
 	await env.plotburn_db.batch([
 		env.plotburn_db.prepare('DELETE FROM movie_categories WHERE category = ?').bind('now_playing'),
-		...successfulMovieIds.map(id =>
-			env.plotburn_db.prepare('INSERT OR IGNORE INTO movie_categories (movie_id, category, added_at) VALUES (?, ?, ?)').bind(id, 'now_playing', now)
+		...successfulMovieIds.map((id, position) =>
+			env.plotburn_db.prepare('INSERT OR IGNORE INTO movie_categories (movie_id, category, added_at, position) VALUES (?, ?, ?, ?)').bind(id, 'now_playing', now, position)
 		),
 	]);
 
@@ -1,5 +1,53 @@
-import type { Env, MovieQueueMessage } from '../types';
-import { handleMovieRoast } from './movieRoast';
+import type { Env, MovieQueueMessage, GenerationJobStatus } from '../types';
+import { handleMovieRoast, handleMovieTruth, refreshMovieTruth } from './movieRoast';
+import { BudgetExceededError } from '../services/costs';
+import { updateGenerationJobStatus, getGenerationJob, insertDeadLetter } from '../services/database';
+import { syncCronRunProgress, extendCronRunLease, getCronLockTimeoutMs } from '../services/cron';
+import { Trace } from '../utils/tracing';
+
+// Cloudflare Queues caps message delays at 12 hours
+const MAX_QUEUE_DELAY_SECONDS = 12 * 60 * 60;
+
+// Must match max_retries of the consumer in wrangler.toml
+const MAX_QUEUE_RETRIES = 3;
+
+const FINAL_JOB_STATUSES: GenerationJobStatus[] = ['succeeded', 'skipped', 'dead_lettered'];
+
+/**
+ * Updates the generation job behind a message, if any, and reports
+ * final outcomes back to the cron run that queued it
+ * Job tracking must never fail the message itself
+ */
+async function setJobStatus(
+  env: Env,
+  body: MovieQueueMessage,
+  status: GenerationJobStatus,
+  error: string | null = null
+): Promise<void> {
+  const { jobId, cronRunId } = body;
+  if (!jobId) return;
+  try {
+    await updateGenerationJobStatus(env, jobId, status, error);
+    if (cronRunId && FINAL_JOB_STATUSES.includes(status)) {
+      await syncCronRunProgress(env, cronRunId);
+    }
+  } catch (err) {
+    console.error(`[Queue] Failed to update job ${jobId} to ${status}:`, err);
+  }
+}
+
+/**
+ * Keeps the lock of the cron run behind a deferred message until the message is
+ * redelivered, so the run is not reaped as abandoned while its work is pending
+ */
+async function extendJobCronRun(env: Env, body: MovieQueueMessage, delaySeconds: number): Promise<void> {
+  if (!body.cronRunId) return;
+  try {
+    await extendCronRunLease(env, body.cronRunId, Date.now() + delaySeconds * 1000 + getCronLockTimeoutMs(env));
+  } catch (err) {
+    console.error(`[Queue] Failed to extend the lease of cron run ${body.cronRunId}:`, err);
+  }
+}
 
 /**
  * Queue consumer handler for processing individual movies
@@ -10,35 +58,119 @@ export async function handleMovieQueueBatch(
   env: Env
 ): Promise<void> {
   for (const message of batch.messages) {
-    const { movieId, title, correlationId } = message.body;
+    const { movieId, title, correlationId, type = 'roast', language = 'en' } = message.body;
     const startTime = Date.now();
+    // One trace per message, stored at GET /admin/logs/<correlationId>-m<movieId> (-t for truth)
+    const trace = new Trace(env, `/queue/${type}`, 'QUEUE', `${correlationId}-${type === 'roast' ? 'm' : 't'}${movieId}`);
+    const span = trace.root;
+    let logStatus = 200;
     
     try {
-      // Check if roast already exists in roasts table (source of truth)
+      span.logRequest({ movieId: String(movieId), movieTitle: title, language, jobId: message.body.jobId, attempt: message.attempts });
+      await setJobStatus(env, message.body, 'running');
+
+      // Truth refresh: re-research only, the existing roast stays active
+      if (type === 'refresh_truth') {
+        console.log(`[Queue][${correlationId}] Refreshing truth for ${title}...`);
+        await refreshMovieTruth(String(movieId), env, span);
+        console.log(`[Queue][${correlationId}] ✓ truth ${title} (${Date.now() - startTime}ms)`);
+        await setJobStatus(env, message.body, 'succeeded');
+        message.ack();
+        continue;
+      }
+
+      // On-demand truth: research only if still missing
+      if (type === 'truth') {
+        console.log(`[Queue][${correlationId}] Researching truth for ${title}...`);
+        await handleMovieTruth(String(movieId), env, span);
+        console.log(`[Queue][${correlationId}] ✓ truth ${title} (${Date.now() - startTime}ms)`);
+        await setJobStatus(env, message.body, 'succeeded');
+        message.ack();
+        continue;
+      }
+
+      // Check if a roast in this language already exists in roasts table (source of truth)
       const existingRoast = await env.plotburn_db.prepare(
-        'SELECT id FROM roasts WHERE movie_id = ? AND is_active = 1'
-      ).bind(movieId).first();
+        "SELECT id FROM roasts WHERE movie_id = ? AND language = ? AND is_active = 1"
+      ).bind(movieId, language).first();
       
       if (existingRoast) {
         console.log(`[Queue][${correlationId}] Skipping ${title} - roast already exists`);
+        // Nothing was generated, so the cron run must not count it as roasted
+        await setJobStatus(env, message.body, 'skipped', 'Roast already exists');
         message.ack();
         continue;
       }
       
       // Process movie roast (this will create entry in roasts table)
       console.log(`[Queue][${correlationId}] Processing ${title}...`);
-      await handleMovieRoast(String(movieId), env, `${correlationId}-m${movieId}`);
+      const response = await handleMovieRoast(String(movieId), env, span, language);
+      const result = (await response.json()) as { skipped?: boolean; reason?: string };
       const processingTime = Date.now() - startTime;
       
       console.log(`[Queue][${correlationId}] ✓ ${title} (${processingTime}ms)`);
+      await setJobStatus(env, message.body, result.skipped ? 'skipped' : 'succeeded', result.reason ?? null);
       message.ack();
       
     } catch (error) {
+      // Out of budget: re-queue with a delay instead of burning a retry
+      if (error instanceof BudgetExceededError) {
+        const delaySeconds = Math.min(
+          MAX_QUEUE_DELAY_SECONDS,
+          Math.max(60, Math.ceil((error.retryAt.getTime() - Date.now()) / 1000))
+        );
+        console.warn(`[Queue][${correlationId}] ⏸ ${title}: ${error.message}, deferring ${delaySeconds}s`);
+        logStatus = 503;
+        span.logWarn(`Deferred ${delaySeconds}s: ${error.message}`);
+        await env.MOVIE_QUEUE.send(message.body, { delaySeconds });
+        await setJobStatus(env, message.body, 'queued', error.message);
+        await extendJobCronRun(env, message.body, delaySeconds);
+        message.ack();
+        continue;
+      }
+
       const errorMsg = error instanceof Error ? error.message : String(error);
       console.error(`[Queue][${correlationId}] ✗ ${title}:`, errorMsg);
+      logStatus = 500;
+      span.logError(errorMsg, { attempt: message.attempts });
+      // Attempts start at 1, so after attempt MAX_QUEUE_RETRIES + 1 the message goes to the DLQ
+      await setJobStatus(env, message.body, message.attempts > MAX_QUEUE_RETRIES ? 'dead_lettered' : 'failed', errorMsg);
       
       // Retry the message (Cloudflare handles retry logic based on max_retries)
       message.retry();
+    } finally {
+      span.logResponse(logStatus, { movieId: String(movieId), movieTitle: title });
+      await trace.flush(logStatus);
+    }
+  }
+}
+
+/**
+ * Dead letter queue consumer - records messages that exhausted their retries
+ * so they can be listed, replayed or ignored via /admin/dead-letters
+ */
+export async function handleDeadLetterBatch(
+  batch: MessageBatch<MovieQueueMessage>,
+  env: Env
+): Promise<void> {
+  for (const message of batch.messages) {
+    const { movieId, title, correlationId, jobId } = message.body;
+
+    try {
+      // The failing consumer stored the last error and attempt count on the job
+      const job = jobId ? await getGenerationJob(env, jobId) : null;
+      await setJobStatus(env, message.body, 'dead_lettered');
+
+      const deadLetterId = await insertDeadLetter(env, message.body, {
+        attempts: job?.attempts ?? MAX_QUEUE_RETRIES + 1,
+        lastError: job?.last_error ?? null,
+      });
+
+      console.warn(`[DLQ][${correlationId}] Recorded dead letter ${deadLetterId} for ${title} (${movieId})`);
+      message.ack();
+    } catch (error) {
+      console.error(`[DLQ][${correlationId}] Failed to record ${title}:`, error);
+      message.retry();
     }
   }
 }
@@ -0,0 +1,73 @@
+import type { Env, RoastHistoryResponse, RoastVersion } from '../types';
+import { getRoastHistory, getRoastById, activateRoastVersion, DBRoast } from '../services/database';
+import { json } from '../utils/response';
+
+/**
+ * Converts a DB roast row into the API version shape
+ */
+function toRoastVersion(dbRoast: DBRoast): RoastVersion {
+	let roast = null;
+	try {
+		roast = JSON.parse(dbRoast.roast_json);
+	} catch {
+		console.error(`[ROAST_HISTORY] Failed to parse roast ${dbRoast.id}`);
+	}
+
+	return {
+		id: dbRoast.id,
+		language: dbRoast.language,
+		created_at: new Date(dbRoast.created_at * 1000).toISOString(),
+		is_active: dbRoast.is_active === 1,
+		is_featured: dbRoast.is_featured === 1,
+		regeneration_reason: dbRoast.regeneration_reason ?? null,
+		regenerated_by: dbRoast.regenerated_by ?? null,
+		roast,
+	};
+}
+
+/**
+ * Lists every roast version for a movie, newest first
+ * GET /movie/:id/roasts?lang=en
+ */
+export async function handleRoastHistory(tmdbId: string, params: URLSearchParams, env: Env): Promise<Response> {
+	const language = params.get('lang') || 'en';
+	const history = await getRoastHistory(env, parseInt(tmdbId), language);
+
+	const versions = history.map(toRoastVersion);
+	const response: RoastHistoryResponse = {
+		movie_id: parseInt(tmdbId),
+		language,
+		active_roast_id: versions.find((v) => v.is_active)?.id ?? null,
+		versions,
+	};
+
+	return json(response);
+}
+
+/**
+ * Makes an older roast version the active one (rollback)
+ * POST /movie/:id/roasts/:roastId/activate
+ */
+export async function handleActivateRoast(tmdbId: string, roastId: string, env: Env): Promise<Response> {
+	const dbRoast = await getRoastById(env, parseInt(roastId));
+
+	if (!dbRoast || dbRoast.movie_id !== parseInt(tmdbId)) {
+		return json({ error: 'Not found', message: `Roast ${roastId} not found for movie ${tmdbId}` }, 404);
+	}
+
+	const history = await getRoastHistory(env, dbRoast.movie_id, dbRoast.language);
+	const previous = history.find((r) => r.is_active === 1);
+
+	if (previous?.id !== dbRoast.id) {
+		await activateRoastVersion(env, dbRoast);
+		console.log(`[ROAST_HISTORY] Activated roast ${dbRoast.id} for movie ${tmdbId} (${dbRoast.language}), previous: ${previous?.id ?? 'none'}`);
+	}
+
+	return json({
+		movie_id: dbRoast.movie_id,
+		language: dbRoast.language,
+		previous_roast_id: previous?.id ?? null,
+		changed: previous?.id !== dbRoast.id,
+		active: toRoastVersion({ ...dbRoast, is_active: 1 }),
+	});
+}
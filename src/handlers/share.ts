@@ -0,0 +1,76 @@
+import type { Env } from '../types';
+import { getRoastById, getActiveRoast, getMovie } from '../services/database';
+import { json } from '../utils/response';
+import { signUrl } from '../utils/signedUrl';
+
+const DEFAULT_SIGNED_URL_TTL_SECONDS = 60 * 60;
+const MAX_SIGNED_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Shareable roast page data, served from D1 only (never generates)
+ * GET /share/:roastId
+ * If the shared version was replaced, the movie's current roast in the same language is returned
+ */
+export async function handleShareRoast(roastId: string, env: Env): Promise<Response> {
+	const shared = await getRoastById(env, parseInt(roastId));
+	if (!shared) {
+		return json({ error: 'Not found', message: `Roast ${roastId} not found` }, 404);
+	}
+
+	const roast = shared.is_active === 1 ? shared : await getActiveRoast(env, shared.movie_id, shared.language);
+	if (!roast) {
+		return json({ error: 'Not found', message: `Roast ${roastId} is no longer available` }, 404);
+	}
+
+	const movie = await getMovie(env, roast.movie_id);
+
+	return json({
+		roast_id: roast.id,
+		replaced: roast.id !== shared.id,
+		language: roast.language,
+		generated_at: new Date(roast.created_at * 1000).toISOString(),
+		roast: JSON.parse(roast.roast_json),
+		movie: movie
+			? {
+					id: movie.id,
+					title: movie.title,
+					release_date: movie.release_date,
+					poster_url: movie.poster_path ? `https://image.tmdb.org/t/p/w500${movie.poster_path}` : null,
+				}
+			: null,
+		disclaimer: 'Satire. Facts unchanged.',
+	});
+}
+
+/**
+ * Signs a GET URL on this API so it can be opened without an API key until it expires
+ * POST /signed-urls
+ * Body: { path: "/movie/123?lang=hi", expires_in?: seconds (default 3600, max 7 days) }
+ * Signed URLs only grant read access and never trigger generation
+ */
+export async function handleSignUrl(req: Request, url: URL, env: Env): Promise<Response> {
+	if (!env.URL_SIGNING_SECRET) {
+		return json({ error: 'Service Unavailable', message: 'URL signing is not configured' }, 503);
+	}
+
+	let body: { path?: unknown; expires_in?: unknown };
+	try {
+		body = (await req.json()) as { path?: unknown; expires_in?: unknown };
+	} catch {
+		return json({ error: 'Bad Request', message: 'Body must be valid JSON' }, 400);
+	}
+
+	if (typeof body?.path !== 'string' || !body.path.startsWith('/') || body.path.startsWith('//')) {
+		return json({ error: 'Bad Request', message: 'path must be an absolute path on this API, e.g. /movie/123' }, 400);
+	}
+
+	const ttl = body.expires_in === undefined ? DEFAULT_SIGNED_URL_TTL_SECONDS : body.expires_in;
+	if (typeof ttl !== 'number' || !Number.isInteger(ttl) || ttl < 1 || ttl > MAX_SIGNED_URL_TTL_SECONDS) {
+		return json({ error: 'Bad Request', message: `expires_in must be between 1 and ${MAX_SIGNED_URL_TTL_SECONDS} seconds` }, 400);
+	}
+
+	const expiresAt = Math.floor(Date.now() / 1000) + ttl;
+	const signed = await signUrl(env.URL_SIGNING_SECRET, new URL(body.path, url.origin), expiresAt);
+
+	return json({ url: signed.toString(), expires_at: new Date(expiresAt * 1000).toISOString() }, 201);
+}
@@ -0,0 +1,159 @@
+import type { Env, ExtractionHistoryEntry, TruthDiffResponse, TruthFieldChange, TruthHistoryResponse } from '../types';
+import type { GrokExtractionResponse } from '../services/brave';
+import { getExtractionsByMovie, getExtractionById, DBExtraction } from '../services/database';
+import { json } from '../utils/response';
+import { normalizeExtraction } from '../utils/extractionValidator';
+
+/**
+ * Counts stored citations, 0 if the column is empty or unreadable
+ */
+function countCitations(extraction: DBExtraction): number {
+	try {
+		const citations = extraction.citations_json ? JSON.parse(extraction.citations_json) : [];
+		return Array.isArray(citations) ? citations.length : 0;
+	} catch {
+		return 0;
+	}
+}
+
+/**
+ * Converts a DB extraction row into the history entry shape (no content)
+ */
+function toHistoryEntry(extraction: DBExtraction): ExtractionHistoryEntry {
+	return {
+		id: extraction.id,
+		source: extraction.source,
+		model: extraction.model,
+		fetched_at: new Date(extraction.fetched_at * 1000).toISOString(),
+		usage: {
+			prompt_tokens: extraction.prompt_tokens ?? 0,
+			completion_tokens: extraction.completion_tokens ?? 0,
+			total_tokens: extraction.total_tokens ?? 0,
+			total_cost: extraction.total_cost ?? 0,
+		},
+		citation_count: countCitations(extraction),
+		completeness_score: extraction.completeness_score ?? null,
+	};
+}
+
+/**
+ * Parses and normalizes stored content so old and new extractions compare field by field
+ */
+function parseContent(extraction: DBExtraction): GrokExtractionResponse {
+	let raw: unknown = null;
+	try {
+		raw = JSON.parse(extraction.content_json);
+	} catch {
+		console.error(`[TRUTH_HISTORY] Failed to parse extraction ${extraction.id}`);
+	}
+	return normalizeExtraction(raw).extraction;
+}
+
+function ratingKey(rating: { source: string; criticName: string }): string {
+	return `${rating.source.toLowerCase()}|${rating.criticName.toLowerCase()}`;
+}
+
+function quoteKey(quote: { quote: string }): string {
+	return quote.quote.toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Lists every extraction for a movie (metadata only), newest first
+ * GET /movie/:id/truth/history
+ */
+export async function handleTruthHistory(tmdbId: string, env: Env): Promise<Response> {
+	const extractions = await getExtractionsByMovie(env, parseInt(tmdbId));
+
+	const response: TruthHistoryResponse = {
+		movie_id: parseInt(tmdbId),
+		extractions: extractions.map(toHistoryEntry),
+	};
+
+	return json(response);
+}
+
+/**
+ * Shows how ratings, quotes and reception changed between two extractions
+ * GET /movie/:id/truth/diff?from=&to=
+ * Defaults to the two most recent extractions when from/to are omitted
+ */
+export async function handleTruthDiff(tmdbId: string, params: URLSearchParams, env: Env): Promise<Response> {
+	const movieId = parseInt(tmdbId);
+	const fromParam = params.get('from');
+	const toParam = params.get('to');
+
+	if ((fromParam && !/^\d+$/.test(fromParam)) || (toParam && !/^\d+$/.test(toParam))) {
+		return json({ error: 'Bad Request', message: 'from and to must be extraction ids' }, 400);
+	}
+
+	let from: DBExtraction | null;
+	let to: DBExtraction | null;
+
+	if (fromParam && toParam) {
+		[from, to] = await Promise.all([getExtractionById(env, parseInt(fromParam)), getExtractionById(env, parseInt(toParam))]);
+	} else {
+		const extractions = await getExtractionsByMovie(env, movieId);
+		to = toParam ? extractions.find((e) => e.id === parseInt(toParam)) || null : extractions[0] || null;
+		from = fromParam
+			? extractions.find((e) => e.id === parseInt(fromParam)) || null
+			: extractions.find((e) => to && e.fetched_at <= to.fetched_at && e.id !== to.id) || null;
+	}
+
+	if (!from || !to || from.movie_id !== movieId || to.movie_id !== movieId) {
+		return json({ error: 'Not found', message: `Need two extractions for movie ${tmdbId} to compare` }, 404);
+	}
+
+	const before = parseContent(from);
+	const after = parseContent(to);
+
+	// Reception
+	const reception: Record<string, TruthFieldChange> = {};
+	const receptionFields: Array<[string, string, string]> = [
+		['criticalConsensus', before.reception.criticalConsensus, after.reception.criticalConsensus],
+		['audienceSentiment', before.reception.audienceSentiment, after.reception.audienceSentiment],
+		['split', before.reception.split, after.reception.split],
+		['verdictBreakdown.mustWatch', before.reception.verdictBreakdown.mustWatch, after.reception.verdictBreakdown.mustWatch],
+		['verdictBreakdown.average', before.reception.verdictBreakdown.average, after.reception.verdictBreakdown.average],
+		['verdictBreakdown.skip', before.reception.verdictBreakdown.skip, after.reception.verdictBreakdown.skip],
+	];
+	for (const [field, oldValue, newValue] of receptionFields) {
+		reception[field] = { from: oldValue, to: newValue, changed: oldValue !== newValue };
+	}
+
+	// Ratings, matched by source + critic
+	const oldRatings = new Map(before.ratings.map((r) => [ratingKey(r), r]));
+	const newRatings = new Map(after.ratings.map((r) => [ratingKey(r), r]));
+	const ratings: TruthDiffResponse['ratings'] = { added: [], removed: [], changed: [] };
+
+	for (const [key, rating] of newRatings) {
+		const previous = oldRatings.get(key);
+		if (!previous) {
+			ratings.added.push({ source: rating.source, criticName: rating.criticName, rating: rating.rating });
+		} else if (previous.rating !== rating.rating) {
+			ratings.changed.push({ source: rating.source, criticName: rating.criticName, from: previous.rating, to: rating.rating });
+		}
+	}
+	for (const [key, rating] of oldRatings) {
+		if (!newRatings.has(key)) {
+			ratings.removed.push({ source: rating.source, criticName: rating.criticName, rating: rating.rating });
+		}
+	}
+
+	// Quotes, matched by text
+	const oldQuotes = new Set(before.memorableQuotes.map(quoteKey));
+	const newQuotes = new Set(after.memorableQuotes.map(quoteKey));
+
+	const response: TruthDiffResponse = {
+		movie_id: movieId,
+		from: { id: from.id, fetched_at: new Date(from.fetched_at * 1000).toISOString() },
+		to: { id: to.id, fetched_at: new Date(to.fetched_at * 1000).toISOString() },
+		reception,
+		ratings,
+		quotes: {
+			added: after.memorableQuotes.filter((q) => !oldQuotes.has(quoteKey(q))).map((q) => ({ source: q.source, quote: q.quote })),
+			removed: before.memorableQuotes.filter((q) => !newQuotes.has(quoteKey(q))).map((q) => ({ source: q.source, quote: q.quote })),
+		},
+	};
+
+	return json(response);
+}
@@ -1,15 +1,244 @@
-import type { Env, MovieQueueMessage } from './types';
-import { json } from './utils/response';
-import { Logger } from './utils/logger';
-import { validateApiKey, isPublicEndpoint } from './utils/auth';
-import { checkRateLimit } from './utils/rateLimit';
+import type { Env, MovieQueueMessage, ApiPrincipal, ApiScope, RateLimitClass, GenerationMode } from './types';
+import { json, withHeaders } from './utils/response';
+import { Trace, Span } from './utils/tracing';
+import { authenticateRequest, hasScope, shouldTouchApiKey } from './utils/auth';
+import { touchApiKey } from './services/database';
+import { limitRequest, getRateLimitPolicy, rateLimitHeaders } from './utils/rateLimit';
 import { handleNowPlaying } from './handlers/nowPlaying';
 import { handlePopularMovies } from './handlers/popular';
-import { handleMovieRoast, handleMovieTruth } from './handlers/movieRoast';
-import { runDailyRoastGeneration, handleCronTrigger, handleCronStatus } from './handlers/cron';
-import { handleMovieQueueBatch } from './handlers/queueConsumer';
+import { handleFeed } from './handlers/feed';
+import { handleRoastHistory, handleActivateRoast } from './handlers/roastHistory';
+import { handleTruthHistory, handleTruthDiff } from './handlers/truthHistory';
+import { handleCostReport, handleBudget } from './handlers/costs';
+import { BudgetExceededError } from './services/costs';
+import { handleCreateApiKey, handleListApiKeys, handleRotateApiKey, handleRevokeApiKey } from './handlers/apiKeys';
+import { handleFeatured, handleFeatureRoast, handleUnfeatureRoast } from './handlers/featured';
+import { handleShareRoast, handleSignUrl } from './handlers/share';
+import { handleJobStatus } from './handlers/jobs';
+import { handleLogPurge, handleListLogs, handleGetLog } from './handlers/logs';
+import { handleMovieRoast, handleMovieTruth, handleRegenerateRoast } from './handlers/movieRoast';
+import {
+	getCronJobsForSchedule,
+	handleCronTrigger,
+	handleCronStatus,
+	handleCronRunJobs,
+	handleReleaseCronLock,
+} from './handlers/cron';
+import { handleMovieQueueBatch, handleDeadLetterBatch } from './handlers/queueConsumer';
+import { handleListDeadLetters, handleReplayDeadLetter, handleReplayAllDeadLetters, handleIgnoreDeadLetter } from './handlers/deadLetters';
+import { DEAD_LETTER_QUEUE } from './constants';
 
 export type { Env };
+export { RateLimiter } from './utils/rateLimiterObject';
+
+// ---------------- ROUTES ----------------
+
+interface RouteContext {
+	req: Request;
+	env: Env;
+	ctx: ExecutionContext;
+	url: URL;
+	params: string[]; // Regex capture groups
+	span: Span; // Root span of the request trace
+	principal: ApiPrincipal;
+}
+
+interface Route {
+	method: string;
+	path: string; // Route template, used by PUBLIC_ROUTES and the docs
+	pattern: RegExp;
+	scope: ApiScope; // Required API key scope (admin keys pass every check)
+	handler: (route: RouteContext) => Promise<Response>;
+}
+
+// First match wins
+const ROUTES: Route[] = [
+	{ method: 'GET', path: '/now-playing', pattern: /^\/now-playing$/, scope: 'read', handler: ({ env, span }) => handleNowPlaying(env, span) },
+	{ method: 'GET', path: '/popular', pattern: /^\/popular$/, scope: 'read', handler: ({ env, span }) => handlePopularMovies(env, span) },
+	{ method: 'GET', path: '/feed', pattern: /^\/feed$/, scope: 'read', handler: ({ url, env }) => handleFeed(url.searchParams, env) },
+	{ method: 'GET', path: '/featured', pattern: /^\/featured$/, scope: 'read', handler: ({ env }) => handleFeatured(env) },
+	{ method: 'GET', path: '/share/:roastId', pattern: /^\/share\/(\d+)$/, scope: 'read', handler: ({ params, env }) => handleShareRoast(params[0], env) },
+	{ method: 'POST', path: '/signed-urls', pattern: /^\/signed-urls$/, scope: 'read', handler: ({ req, url, env }) => handleSignUrl(req, url, env) },
+	{ method: 'GET', path: '/jobs/:id', pattern: /^\/jobs\/(\d+)$/, scope: 'read', handler: ({ params, env }) => handleJobStatus(params[0], env) },
+	{
+		method: 'GET',
+		path: '/admin/costs',
+		pattern: /^\/admin\/costs$/,
+		scope: 'admin',
+		handler: ({ url, env }) => handleCostReport(url.searchParams, env),
+	},
+	{ method: 'GET', path: '/admin/budget', pattern: /^\/admin\/budget$/, scope: 'admin', handler: ({ env }) => handleBudget(env) },
+	{ method: 'POST', path: '/admin/keys', pattern: /^\/admin\/keys$/, scope: 'admin', handler: ({ req, env }) => handleCreateApiKey(req, env) },
+	{ method: 'GET', path: '/admin/keys', pattern: /^\/admin\/keys$/, scope: 'admin', handler: ({ env }) => handleListApiKeys(env) },
+	{
+		method: 'POST',
+		path: '/admin/keys/:keyId/rotate',
+		pattern: /^\/admin\/keys\/(\d+)\/rotate$/,
+		scope: 'admin',
+		handler: ({ params, req, env }) => handleRotateApiKey(params[0], req, env),
+	},
+	{
+		method: 'DELETE',
+		path: '/admin/keys/:keyId',
+		pattern: /^\/admin\/keys\/(\d+)$/,
+		scope: 'admin',
+		handler: ({ params, env }) => handleRevokeApiKey(params[0], env),
+	},
+	{
+		method: 'GET',
+		path: '/admin/dead-letters',
+		pattern: /^\/admin\/dead-letters$/,
+		scope: 'admin',
+		handler: ({ url, env }) => handleListDeadLetters(url.searchParams, env),
+	},
+	{
+		method: 'POST',
+		path: '/admin/dead-letters/replay',
+		pattern: /^\/admin\/dead-letters\/replay$/,
+		scope: 'admin',
+		handler: ({ env }) => handleReplayAllDeadLetters(env),
+	},
+	{
+		method: 'POST',
+		path: '/admin/dead-letters/:id/replay',
+		pattern: /^\/admin\/dead-letters\/(\d+)\/replay$/,
+		scope: 'admin',
+		handler: ({ params, env }) => handleReplayDeadLetter(params[0], env),
+	},
+	{
+		method: 'POST',
+		path: '/admin/dead-letters/:id/ignore',
+		pattern: /^\/admin\/dead-letters\/(\d+)\/ignore$/,
+		scope: 'admin',
+		handler: ({ params, env }) => handleIgnoreDeadLetter(params[0], env),
+	},
+	{ method: 'GET', path: '/admin/logs', pattern: /^\/admin\/logs$/, scope: 'admin', handler: ({ url, env }) => handleListLogs(url.searchParams, env) },
+	{
+		method: 'GET',
+		path: '/admin/logs/:correlationId',
+		pattern: /^\/admin\/logs\/([A-Za-z0-9_.:-]+)$/,
+		scope: 'admin',
+		handler: ({ params, env }) => handleGetLog(params[0], env),
+	},
+	{
+		method: 'POST',
+		path: '/admin/logs/purge',
+		pattern: /^\/admin\/logs\/purge$/,
+		scope: 'admin',
+		handler: ({ url, env, span }) => handleLogPurge(url.searchParams, env, span),
+	},
+	{
+		method: 'POST',
+		path: '/admin/cron/:job/release',
+		pattern: /^\/admin\/cron\/([a-z_]+)\/release$/,
+		scope: 'admin',
+		handler: ({ params, env }) => handleReleaseCronLock(params[0], env),
+	},
+	{ method: 'POST', path: '/cron/trigger', pattern: /^\/cron\/trigger$/, scope: 'cron', handler: ({ env, ctx }) => handleCronTrigger(env, ctx) },
+	{
+		method: 'POST',
+		path: '/cron/:job/trigger',
+		pattern: /^\/cron\/([a-z_]+)\/trigger$/,
+		scope: 'cron',
+		handler: ({ params, env, ctx }) => handleCronTrigger(env, ctx, params[0]),
+	},
+	{ method: 'GET', path: '/cron/status', pattern: /^\/cron\/status$/, scope: 'cron', handler: ({ url, env }) => handleCronStatus(url.searchParams, env) },
+	{
+		method: 'GET',
+		path: '/cron/runs/:id/jobs',
+		pattern: /^\/cron\/runs\/(\d+)\/jobs$/,
+		scope: 'cron',
+		handler: ({ params, env }) => handleCronRunJobs(params[0], env),
+	},
+	{
+		method: 'GET',
+		path: '/movie/:id',
+		pattern: /^\/movie\/(\d+)$/,
+		scope: 'read',
+		handler: ({ params, env, span, url, principal }) =>
+			handleMovieRoast(params[0], env, span, url.searchParams.get('lang') || 'en', readMode(principal)),
+	},
+	{
+		method: 'GET',
+		path: '/movie/:id/truth',
+		pattern: /^\/movie\/(\d+)\/truth$/,
+		scope: 'read',
+		handler: ({ params, env, span, principal }) => handleMovieTruth(params[0], env, span, readMode(principal)),
+	},
+	{
+		method: 'GET',
+		path: '/movie/:id/truth/history',
+		pattern: /^\/movie\/(\d+)\/truth\/history$/,
+		scope: 'read',
+		handler: ({ params, env }) => handleTruthHistory(params[0], env),
+	},
+	{
+		method: 'GET',
+		path: '/movie/:id/truth/diff',
+		pattern: /^\/movie\/(\d+)\/truth\/diff$/,
+		scope: 'read',
+		handler: ({ params, url, env }) => handleTruthDiff(params[0], url.searchParams, env),
+	},
+	{
+		method: 'GET',
+		path: '/movie/:id/roasts',
+		pattern: /^\/movie\/(\d+)\/roasts$/,
+		scope: 'read',
+		handler: ({ params, url, env }) => handleRoastHistory(params[0], url.searchParams, env),
+	},
+	{
+		method: 'POST',
+		path: '/movie/:id/regenerate',
+		pattern: /^\/movie\/(\d+)\/regenerate$/,
+		scope: 'generate',
+		handler: ({ params, req, env, span, principal }) => handleRegenerateRoast(params[0], req, env, span, principal),
+	},
+	{
+		method: 'POST',
+		path: '/movie/:id/roasts/:roastId/activate',
+		pattern: /^\/movie\/(\d+)\/roasts\/(\d+)\/activate$/,
+		scope: 'admin',
+		handler: ({ params, env }) => handleActivateRoast(params[0], params[1], env),
+	},
+	{
+		method: 'PUT',
+		path: '/roasts/:roastId/featured',
+		pattern: /^\/roasts\/(\d+)\/featured$/,
+		scope: 'admin',
+		handler: ({ params, req, env }) => handleFeatureRoast(params[0], req, env),
+	},
+	{
+		method: 'DELETE',
+		path: '/roasts/:roastId/featured',
+		pattern: /^\/roasts\/(\d+)\/featured$/,
+		scope: 'admin',
+		handler: ({ params, env }) => handleUnfeatureRoast(params[0], env),
+	},
+];
+
+/**
+ * Reads never generate inline: keys get a queued job (202) on a miss, keyless callers a 404
+ */
+function readMode(principal: ApiPrincipal): GenerationMode {
+	return principal.readOnly ? 'cache_only' : 'queue';
+}
+
+// Which rate limit policy applies to a route
+const RATE_CLASS_BY_SCOPE: Record<ApiScope, RateLimitClass> = {
+	read: 'read',
+	generate: 'generate',
+	admin: 'admin',
+	cron: 'admin',
+};
+
+function matchRoute(method: string, pathname: string): { route: Route; params: string[] } | null {
+	for (const route of ROUTES) {
+		if (route.method !== method) continue;
+		const match = pathname.match(route.pattern);
+		if (match) return { route, params: match.slice(1) };
+	}
+	return null;
+}
 
 // ---------------- WORKER ----------------
 
@@ -17,80 +246,87 @@ export default {
 	async fetch(req: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
 		const url = new URL(req.url);
 
-		// Generate or extract correlation ID from headers
-		const correlationId = req.headers.get('x-correlation-id') || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-		const logger = new Logger(env, url.pathname, req.method, correlationId);
+		// One trace per request, under the caller's correlation ID if provided
+		const trace = new Trace(env, url.pathname, req.method, req.headers.get('x-correlation-id') || undefined);
+		const span = trace.root;
 
 		let responseStatus = 200;
 
 		try {
-			// Check authentication for protected endpoints
-			if (!isPublicEndpoint(url.pathname)) {
-				const authError = validateApiKey(req, env);
-				if (authError) {
-					responseStatus = 401;
-					await logger.logResponse(401, { error: 'Unauthorized' });
-					return authError;
-				}
-			}
+			const match = matchRoute(req.method, url.pathname);
 
-			// Rate limiting - 5 requests per minute per IP
-			const clientIP = req.headers.get('cf-connecting-ip') || 'unknown';
-			const rateLimit = await checkRateLimit(env.RECENT_ROAST_KV, clientIP);
-			if (!rateLimit.allowed) {
-				responseStatus = 429;
-				await logger.logResponse(429, { error: 'Rate limited', clientIP });
-				return json({ error: 'Too many requests. Try again later.' }, 429);
+			// Resolve the caller: API key, signed URL, or anonymous on a public route
+			const principal = await authenticateRequest(req, url, env, match?.route ?? null);
+			if (principal instanceof Response) {
+				responseStatus = principal.status;
+				span.logResponse(principal.status, { error: 'Unauthorized' });
+				return principal;
+			}
+			if (shouldTouchApiKey(principal)) {
+				ctx.waitUntil(touchApiKey(env, principal.id!));
 			}
 
 			// Log incoming request with minimal metadata
-			await logger.logRequest({
+			span.logRequest({
 				queryParams: Object.fromEntries(url.searchParams),
 				userAgent: req.headers.get('user-agent'),
+				apiKey: principal.name,
 			});
 
 			let response: Response;
-			let movieId: string | undefined;
+			const movieId: string | undefined = url.pathname.match(/^\/movie\/(\d+)/)?.[1];
 			let movieTitle: string | undefined;
 
-			if (url.pathname === '/now-playing' && req.method === 'GET') {
-				response = await handleNowPlaying(env);
-			} else if (url.pathname === '/popular' && req.method === 'GET') {
-				response = await handlePopularMovies(env);
-			} else if (url.pathname === '/cron/trigger' && req.method === 'POST') {
-				response = await handleCronTrigger(env, ctx);
-			} else if (url.pathname === '/cron/status' && req.method === 'GET') {
-				response = await handleCronStatus(env);
-			} else if (req.method === 'GET') {
-				const movieMatch = url.pathname.match(/^\/movie\/(\d+)$/);
-				const truthMatch = url.pathname.match(/^\/movie\/(\d+)\/truth$/);
-
-				if (truthMatch) {
-					movieId = truthMatch[1];
-					response = await handleMovieTruth(movieId, env, correlationId);
-				} else if (movieMatch) {
-					movieId = movieMatch[1];
-					response = await handleMovieRoast(movieId, env, correlationId);
-				} else {
+			// Rate limiting per API key and route class, before the route and scope checks
+			// so unknown routes (404) and missing scopes (403) count too; unknown routes count as read
+			const rateClass = match ? RATE_CLASS_BY_SCOPE[match.route.scope] : 'read';
+			const policy = getRateLimitPolicy(env, principal.name, rateClass);
+			// Keyless callers are limited per IP
+			const clientIP = req.headers.get('cf-connecting-ip') || 'unknown';
+			const identity = principal.readOnly ? `${principal.name}:${clientIP}` : `key:${principal.id ?? principal.name}`;
+			const rateLimit = await limitRequest(env, `${identity}:${rateClass}`, policy);
+
+			if (!rateLimit.allowed) {
+				response = json(
+					{ error: 'Too many requests. Try again later.', retry_after: rateLimit.retry_after_seconds },
+					429,
+					rateLimitHeaders(rateLimit)
+				);
+			} else {
+				if (!match) {
 					response = json({ error: 'Not found' }, 404);
+				} else if (!hasScope(principal, match.route.scope)) {
+					response = json({ error: 'Forbidden', message: `API key '${principal.name}' lacks the '${match.route.scope}' scope` }, 403);
+				} else {
+					response = await match.route.handler({ req, env, ctx, url, params: match.params, span, principal });
 				}
-			} else {
-				response = json({ error: 'Not found' }, 404);
+				response = withHeaders(response, rateLimitHeaders(rateLimit));
 			}
 
 			responseStatus = response.status;
 
 			// Log response with important metadata only
-			await logger.logResponse(response.status, {
+			span.logResponse(response.status, {
 				movieId,
 				movieTitle,
 			});
 
 			return response;
 		} catch (error) {
+			if (error instanceof BudgetExceededError) {
+				responseStatus = 503;
+				span.logResponse(503, { error: error.message });
+				const retryAfter = Math.max(1, Math.ceil((error.retryAt.getTime() - Date.now()) / 1000));
+				return json(
+					{ error: 'Service Unavailable', message: `Generation is paused: ${error.message}`, retry_at: error.retryAt.toISOString() },
+					503,
+					{ 'Retry-After': String(retryAfter) }
+				);
+			}
+
 			responseStatus = 500;
 			// Log error
-			await logger.logError(error as Error);
+			span.logError(error as Error);
 
 			return json(
 				{
@@ -99,34 +335,55 @@ export default {
 				500
 			);
 		} finally {
-			// Always flush logs to R2 at the end of the request
-			// This ensures all accumulated logs are persisted even if an error occurred
-			ctx.waitUntil(logger.flush(responseStatus));
+			// Always flush the trace to R2 at the end of the request
+			// This ensures all spans are persisted even if an error occurred
+			ctx.waitUntil(trace.flush(responseStatus));
 		}
 	},
 
 	async scheduled(event: ScheduledEvent, env: Env): Promise<void> {
-		const correlationId = `cron-${Date.now()}`;
-		const logger = new Logger(env, '/cron/scheduled', 'SCHEDULED', correlationId);
+		const trace = new Trace(env, '/cron/scheduled', 'SCHEDULED', `cron-${Date.now()}`);
+		const span = trace.root;
 
 		let status = 200;
 
 		try {
-			await logger.logRequest({ trigger: 'scheduled', cron: event.cron });
-			await runDailyRoastGeneration(env, correlationId);
-			await logger.logResponse(200, { status: 'completed' });
+			// Every registered job on this cron expression; one failing job doesn't stop the others
+			const jobs = getCronJobsForSchedule(event.cron);
+			span.logRequest({ trigger: 'scheduled', cron: event.cron, jobs: jobs.map((job) => job.name) });
+			if (jobs.length === 0) {
+				span.logWarn(`No cron job registered for '${event.cron}'`);
+			}
+
+			const failed: string[] = [];
+			for (const job of jobs) {
+				try {
+					const result = await job.run(env, span);
+					span.logDebug(`Cron job ${job.name} finished`, result);
+				} catch (error) {
+					failed.push(job.name);
+					span.logError(error as Error, { job: job.name });
+				}
+			}
+
+			status = failed.length > 0 ? 500 : 200;
+			span.logResponse(status, { status: failed.length > 0 ? 'failed' : 'completed', failed });
 		} catch (error) {
 			status = 500;
-			await logger.logError(error as Error);
+			span.logError(error as Error);
 			// Don't throw - allow worker to continue
 		} finally {
-			// Flush logs to R2
-			await logger.flush(status);
+			// Flush the trace (including each job's span) to R2
+			await trace.flush(status);
 		}
 	},
 
-	// Queue consumer handler - processes movies sent to the queue
+	// Queue consumer handler - processes movies sent to the queue, and records its dead letters
 	async queue(batch: MessageBatch<MovieQueueMessage>, env: Env): Promise<void> {
+		if (batch.queue === DEAD_LETTER_QUEUE) {
+			await handleDeadLetterBatch(batch, env);
+			return;
+		}
 		await handleMovieQueueBatch(batch, env);
 	},
 };
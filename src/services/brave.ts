@@ -3,9 +3,14 @@ import type {
   MovieMeta,
   BraveSearchResponse,
   ExtractedMovieData,
+  ExtractionCompleteness,
 } from '../types';
 import { getLanguageName } from "../utils/iso639";
-import { Logger } from '../utils/logger';
+import type { Span } from '../utils/tracing';
+import { normalizeExtraction } from '../utils/extractionValidator';
+import { recordApiCost, assertWithinBudget } from './costs';
+
+const BRAVE_PRICE_KEY = 'brave-web-search';
 
 // Stored search result type - exported for use in handlers
 export interface StoredSearchResult {
@@ -17,51 +22,87 @@ export interface StoredSearchResult {
 }
 
 // Grok extraction response type - exported for use in handlers
+// Mirrors the RETURN STRUCTURE in EXTRACTION_SYSTEM_PROMPT; normalizeExtraction() fills missing sections
 export interface GrokExtractionResponse {
   title: string;
   plot: {
-    summary: string;
+    detailedSummary: string;
+    subplots: string[];
     absurdities: string[];
+    plotHoles: string[];
+    pacingIssues: string;
     genreConfusion: string;
   };
   characterArcs: {
     lead: string;
     supporting: string[];
     wastedPotential: string[];
+    castingIssues: string[];
+  };
+  performances: {
+    praised: string[];
+    criticized: string[];
+    chemistry: string;
+    standouts: string[];
   };
   reception: {
     criticalConsensus: string;
     audienceSentiment: string;
     split: string;
+    verdictBreakdown: {
+      mustWatch: string;
+      average: string;
+      skip: string;
+    };
   };
   ratings: Array<{
     source: string;
     rating: string;
     criticName: string;
     quote: string;
-    type: 'critic' | 'audience' | 'aggregate';
+    type: 'critic' | 'audience' | 'aggregate' | 'social';
+    reviewLength: string;
+    timestamp: string;
   }>;
   positives: string[];
   negatives: string[];
+  technicalAspects: {
+    cinematography: string;
+    music: string;
+    editing: string;
+    direction: string;
+    screenplay: string;
+  };
   memorableQuotes: Array<{
-    type: 'positive' | 'negative' | 'absurd' | 'mixed';
+    type: 'positive' | 'negative' | 'absurd' | 'mixed' | 'technical';
     source: string;
     quote: string;
+    context: string;
   }>;
   comparisons: Array<{
     comparedTo: string;
     reason: string;
     source: string;
+    favorable: string;
   }>;
   controversy: {
     summary: string;
     details: string[];
+    publicReaction: string;
     impact: string;
   };
   satiricalAngles: string[];
   boxOffice: {
     verdict: string;
+    numbers: string;
     context: string;
+    trajectory: string;
+  };
+  socialMedia: {
+    twitterReactions: string[];
+    redditConsensus: string;
+    youtubeReviewers: string[];
+    viralMoments: string[];
   };
   miscs: {
     director: string;
@@ -69,6 +110,7 @@ export interface GrokExtractionResponse {
     release: string;
     certificate: string;
     technicalNotes: string;
+    trivia: string[];
   };
 }
 
@@ -246,257 +288,307 @@ Return only valid JSON without markdown.`;
 /**
  * Fetches search results from Brave Search API
  * Exported for use in handlers that need to fetch evidence separately
+ * @returns the search result and the USD cost of the request
+ * @throws BudgetExceededError when the Brave spend budget is exhausted
  */
 export async function fetchBraveSearch(
   tmdbId: string,
   movieMeta: MovieMeta,
   env: Env,
-  logger: Logger
-): Promise<{ searchResult: StoredSearchResult; fromCache: boolean }> {
-  // Prepare search query
-  const lang = getLanguageName(movieMeta.original_language);
-  const releaseYear = movieMeta.release_date?.split('-')[0] || new Date().getFullYear().toString();
-  const searchQuery = `${movieMeta.title} ${releaseYear} ${lang} movie story summary review rating audience verdict`;
-
-  const apiStartTime = Date.now();
-
-  // Call Brave Search API
-  let res: Response;
-  try {
-    const searchParams = new URLSearchParams({
-      q: searchQuery,
-      extra_snippets: 'true',
-      count: '20',
-      country: 'IN',
-      safesearch: 'off',
-    });
+  parent: Span
+): Promise<{ searchResult: StoredSearchResult; fromCache: boolean; cost: number }> {
+  return parent.trace('brave.search', { movieId: tmdbId }, async (span) => {
+    // Throws BudgetExceededError once the Brave budget is spent
+    await assertWithinBudget(env, 'brave');
+
+    // Prepare search query
+    const lang = getLanguageName(movieMeta.original_language);
+    const releaseYear = movieMeta.release_date?.split('-')[0] || new Date().getFullYear().toString();
+    const searchQuery = `${movieMeta.title} ${releaseYear} ${lang} movie story summary review rating audience verdict`;
+
+    const apiStartTime = Date.now();
+
+    // Call Brave Search API
+    let res: Response;
+    try {
+      const searchParams = new URLSearchParams({
+        q: searchQuery,
+        extra_snippets: 'true',
+        count: '20',
+        country: 'IN',
+        safesearch: 'off',
+      });
+
+      res = await fetch(`https://api.search.brave.com/res/v1/web/search?${searchParams}`, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+          'Accept-Encoding': 'gzip',
+          'X-Subscription-Token': env.BRAVE_API_KEY,
+        },
+        signal: AbortSignal.timeout(30000),
+      });
+    } catch (err) {
+      const duration = Date.now() - apiStartTime;
+      span.logExternalAPICall(
+        'Brave Search',
+        { tmdbId, title: movieMeta?.title, query: searchQuery },
+        undefined,
+        (err as Error).message,
+        duration
+      );
+      throw err;
+    }
 
-    res = await fetch(`https://api.search.brave.com/res/v1/web/search?${searchParams}`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Accept-Encoding': 'gzip',
-        'X-Subscription-Token': env.BRAVE_API_KEY,
-      },
-      signal: AbortSignal.timeout(30000),
+    const apiDuration = Date.now() - apiStartTime;
+
+    // Brave bills every answered request, failed or not, so record it before checking the status
+    const cost = await recordApiCost(env, {
+      provider: 'brave',
+      model: BRAVE_PRICE_KEY,
+      operation: 'search',
+      movieId: parseInt(tmdbId),
+      correlationId: span.correlationId,
+      usage: { requests: 1 },
     });
-  } catch (err) {
-    const duration = Date.now() - apiStartTime;
-    await logger.logExternalAPICall(
-      'Brave Search',
-      { tmdbId, title: movieMeta?.title, query: searchQuery },
-      undefined,
-      (err as Error).message,
-      duration
-    );
-    throw err;
-  }
 
-  const apiDuration = Date.now() - apiStartTime;
+    if (!res.ok) {
+      const errorBody = await res.text().catch(() => '(no body)');
+      span.logExternalAPICall(
+        'Brave Search',
+        { tmdbId, title: movieMeta?.title, query: searchQuery },
+        undefined,
+        `HTTP ${res.status} – ${errorBody}`,
+        apiDuration
+      );
+      throw new Error(`Brave Search API error: ${res.status} – ${errorBody.slice(0, 300)}`);
+    }
 
-  if (!res.ok) {
-    const errorBody = await res.text().catch(() => '(no body)');
-    await logger.logExternalAPICall(
+    // Parse response
+    const data = (await res.json()) as BraveSearchResponse;
+
+    // Extract relevant data
+    const extractedData: ExtractedMovieData = {
+      results: (data.web?.results || []).map((result) => ({
+        title: result.title,
+        description: result.description,
+        extra_snippets: result.extra_snippets,
+        rating: result.movie?.rating,
+      })),
+      faq: (data.faq?.results || []).map((faq) => ({
+        question: faq.question,
+        answer: faq.answer,
+      })),
+      infobox: data.infobox,
+    };
+
+    // Build search result
+    const searchResult: StoredSearchResult = {
+      source: 'brave-search-api',
+      fetchedAt: new Date().toISOString(),
+      query: searchQuery,
+      data: extractedData,
+      citations: data.web?.results?.map((r) => r.url) || [],
+    };
+
+    // Log the API call
+    span.logExternalAPICall(
       'Brave Search',
-      { tmdbId, title: movieMeta?.title, query: searchQuery },
+      { movieId: tmdbId, title: movieMeta.title, query: searchQuery },
+      {
+        results_count: data.web?.results?.length || 0,
+        has_faq: !!data.faq,
+        has_infobox: !!data.infobox,
+        duration_ms: apiDuration,
+      },
       undefined,
-      `HTTP ${res.status} – ${errorBody}`,
       apiDuration
     );
-    throw new Error(`Brave Search API error: ${res.status} – ${errorBody.slice(0, 300)}`);
-  }
 
-  // Parse response
-  const data = (await res.json()) as BraveSearchResponse;
-
-  // Extract relevant data
-  const extractedData: ExtractedMovieData = {
-    results: (data.web?.results || []).map((result) => ({
-      title: result.title,
-      description: result.description,
-      extra_snippets: result.extra_snippets,
-      rating: result.movie?.rating,
-    })),
-    faq: (data.faq?.results || []).map((faq) => ({
-      question: faq.question,
-      answer: faq.answer,
-    })),
-    infobox: data.infobox,
-  };
-
-  // Build search result
-  const searchResult: StoredSearchResult = {
-    source: 'brave-search-api',
-    fetchedAt: new Date().toISOString(),
-    query: searchQuery,
-    data: extractedData,
-    citations: data.web?.results?.map((r) => r.url) || [],
-  };
-
-  // Log the API call
-  await logger.logExternalAPICall(
-    'Brave Search',
-    { movieId: tmdbId, title: movieMeta.title, query: searchQuery },
-    {
-      results_count: data.web?.results?.length || 0,
-      has_faq: !!data.faq,
-      has_infobox: !!data.infobox,
-      duration_ms: apiDuration,
-    },
-    undefined,
-    apiDuration
-  );
-
-  return { searchResult, fromCache: false };
+    return { searchResult, fromCache: false, cost };
+  });
 }
 
 /**
  * Calls Grok API to extract structured movie data from search results
+ * The parsed JSON is normalized to GrokExtractionResponse and scored for completeness
  * Exported for use in handlers that need to extract content separately
+ * @throws BudgetExceededError when the Grok spend budget is exhausted
  */
 export async function extractWithGrok(
   searchResult: StoredSearchResult,
   movieMeta: MovieMeta,
   env: Env,
-  logger: Logger
-): Promise<{ extraction: GrokExtractionResponse; usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number } }> {
-  const apiStartTime = Date.now();
-
-  const body = {
-    model: 'grok-4-1-fast-non-reasoning',
-    temperature: 0.3,
-    max_tokens: 10000,
-    repetition_penalty: 1.05,
-    top_p: 0.9,
-    messages: [
-      {
-        role: 'system',
-        content: EXTRACTION_SYSTEM_PROMPT,
-      },
-      {
-        role: 'user',
-        content: `Extract movie information from this Brave Search response for "${movieMeta.title}" (${movieMeta.release_date?.split('-')[0] || 'Unknown Year'}):\n\n${JSON.stringify(searchResult.data, null, 2)}`,
-      },
-    ],
-  };
+  parent: Span
+): Promise<{
+  extraction: GrokExtractionResponse;
+  completeness: ExtractionCompleteness;
+  usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number; total_cost: number };
+}> {
+  return parent.trace('grok.extraction', { movieId: movieMeta.id, model: 'grok-4-1-fast-non-reasoning' }, async (span) => {
+    // Throws BudgetExceededError once the Grok budget is spent
+    await assertWithinBudget(env, 'grok');
+
+    const apiStartTime = Date.now();
+
+    const body = {
+      model: 'grok-4-1-fast-non-reasoning',
+      temperature: 0.3,
+      max_tokens: 10000,
+      repetition_penalty: 1.05,
+      top_p: 0.9,
+      messages: [
+        {
+          role: 'system',
+          content: EXTRACTION_SYSTEM_PROMPT,
+        },
+        {
+          role: 'user',
+          content: `Extract movie information from this Brave Search response for "${movieMeta.title}" (${movieMeta.release_date?.split('-')[0] || 'Unknown Year'}):\n\n${JSON.stringify(searchResult.data, null, 2)}`,
+        },
+      ],
+    };
 
-  try {
-    const res = await fetch('https://api.x.ai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${env.XAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-      signal: AbortSignal.timeout(60000),
-    });
+    try {
+      const res = await fetch('https://api.x.ai/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${env.XAI_API_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(60000),
+      });
+
+      const apiDuration = Date.now() - apiStartTime;
+
+      if (!res.ok) {
+        const errorText = await res.text();
+        span.logExternalAPICall(
+          'Grok (Extraction)',
+          {
+            movieId: movieMeta.id.toString(),
+            movieTitle: movieMeta.title,
+            model: body.model,
+            stage: 'extraction',
+          },
+          undefined,
+          `${res.status} ${res.statusText}: ${errorText}`,
+          apiDuration
+        );
+        throw new Error(`Grok API failed: ${res.status} ${res.statusText}`);
+      }
 
-    const apiDuration = Date.now() - apiStartTime;
+      const data = (await res.json()) as {
+        choices: { message: { content: string } }[];
+        usage?: {
+          prompt_tokens?: number;
+          completion_tokens?: number;
+          total_tokens?: number;
+        };
+      };
 
-    if (!res.ok) {
-      const errorText = await res.text();
-      await logger.logExternalAPICall(
+      // Log successful API call
+      span.logExternalAPICall(
         'Grok (Extraction)',
         {
           movieId: movieMeta.id.toString(),
           movieTitle: movieMeta.title,
           model: body.model,
+          temperature: body.temperature,
+          max_tokens: body.max_tokens,
           stage: 'extraction',
         },
+        {
+          response_length: data.choices[0]?.message?.content?.length || 0,
+          prompt_tokens: data.usage?.prompt_tokens || 0,
+          completion_tokens: data.usage?.completion_tokens || 0,
+        },
         undefined,
-        `${res.status} ${res.statusText}: ${errorText}`,
         apiDuration
       );
-      throw new Error(`Grok API failed: ${res.status} ${res.statusText}`);
-    }
-
-    const data = (await res.json()) as {
-      choices: { message: { content: string } }[];
-      usage?: {
-        prompt_tokens?: number;
-        completion_tokens?: number;
-        total_tokens?: number;
-      };
-    };
 
-    // Log successful API call
-    await logger.logExternalAPICall(
-      'Grok (Extraction)',
-      {
-        movieId: movieMeta.id.toString(),
-        movieTitle: movieMeta.title,
+      const totalCost = await recordApiCost(env, {
+        provider: 'grok',
         model: body.model,
-        temperature: body.temperature,
-        max_tokens: body.max_tokens,
-        stage: 'extraction',
-      },
-      {
-        response_length: data.choices[0]?.message?.content?.length || 0,
-        prompt_tokens: data.usage?.prompt_tokens || 0,
-        completion_tokens: data.usage?.completion_tokens || 0,
-      },
-      undefined,
-      apiDuration
-    );
-
-    // Parse JSON response
-    const responseText = data.choices[0]?.message?.content || '{}';
-
-    // Handle potential markdown code blocks
-    let jsonString = responseText;
-    const jsonMatch = responseText.match(/```json\s*([\s\S]*?)\s*```/) || responseText.match(/```\s*([\s\S]*?)\s*```/);
-    if (jsonMatch) {
-      jsonString = jsonMatch[1];
-    } else {
-      // No code blocks - extract JSON object by finding matching braces
-      // This handles cases where Grok adds trailing text after the JSON
-      const firstBrace = responseText.indexOf('{');
-      if (firstBrace !== -1) {
-        let braceCount = 0;
-        let lastBrace = -1;
-        for (let i = firstBrace; i < responseText.length; i++) {
-          if (responseText[i] === '{') braceCount++;
-          else if (responseText[i] === '}') {
-            braceCount--;
-            if (braceCount === 0) {
-              lastBrace = i;
-              break;
+        operation: 'extraction',
+        movieId: movieMeta.id,
+        correlationId: span.correlationId,
+        usage: {
+          input_tokens: data.usage?.prompt_tokens || 0,
+          output_tokens: data.usage?.completion_tokens || 0,
+        },
+      });
+
+      // Parse JSON response
+      const responseText = data.choices[0]?.message?.content || '{}';
+
+      // Handle potential markdown code blocks
+      let jsonString = responseText;
+      const jsonMatch = responseText.match(/```json\s*([\s\S]*?)\s*```/) || responseText.match(/```\s*([\s\S]*?)\s*```/);
+      if (jsonMatch) {
+        jsonString = jsonMatch[1];
+      } else {
+        // No code blocks - extract JSON object by finding matching braces
+        // This handles cases where Grok adds trailing text after the JSON
+        const firstBrace = responseText.indexOf('{');
+        if (firstBrace !== -1) {
+          let braceCount = 0;
+          let lastBrace = -1;
+          for (let i = firstBrace; i < responseText.length; i++) {
+            if (responseText[i] === '{') braceCount++;
+            else if (responseText[i] === '}') {
+              braceCount--;
+              if (braceCount === 0) {
+                lastBrace = i;
+                break;
+              }
             }
           }
-        }
-        if (lastBrace !== -1) {
-          jsonString = responseText.substring(firstBrace, lastBrace + 1);
+          if (lastBrace !== -1) {
+            jsonString = responseText.substring(firstBrace, lastBrace + 1);
+          }
         }
       }
-    }
 
-    const extraction = JSON.parse(jsonString.trim()) as GrokExtractionResponse;
+      const { extraction, completeness } = normalizeExtraction(JSON.parse(jsonString.trim()));
 
-    return {
-      extraction,
-      usage: {
-        prompt_tokens: data.usage?.prompt_tokens || 0,
-        completion_tokens: data.usage?.completion_tokens || 0,
-        total_tokens: data.usage?.total_tokens || 0,
-      },
-    };
-  } catch (error) {
-    const apiDuration = Date.now() - apiStartTime;
+      if (completeness.score < 0.3) {
+        span.logWarn('Thin Grok extraction', {
+          movieId: movieMeta.id.toString(),
+          completeness_score: completeness.score,
+          counts: completeness.counts,
+        });
+      }
 
-    await logger.logExternalAPICall(
-      'Grok (Extraction)',
-      {
-        movieId: movieMeta.id.toString(),
-        movieTitle: movieMeta.title,
-        model: body.model,
-        stage: 'extraction',
-      },
-      undefined,
-      error instanceof Error ? error.message : String(error),
-      apiDuration
-    );
+      return {
+        extraction,
+        completeness,
+        usage: {
+          prompt_tokens: data.usage?.prompt_tokens || 0,
+          completion_tokens: data.usage?.completion_tokens || 0,
+          total_tokens: data.usage?.total_tokens || 0,
+          total_cost: totalCost,
+        },
+      };
+    } catch (error) {
+      const apiDuration = Date.now() - apiStartTime;
 
-    throw error;
-  }
+      span.logExternalAPICall(
+        'Grok (Extraction)',
+        {
+          movieId: movieMeta.id.toString(),
+          movieTitle: movieMeta.title,
+          model: body.model,
+          stage: 'extraction',
+        },
+        undefined,
+        error instanceof Error ? error.message : String(error),
+        apiDuration
+      );
+
+      throw error;
+    }
+  });
 }
 
@@ -9,15 +9,86 @@
  * and tracks recent roasts to avoid repetitive patterns.
  */
 
-import type { Env, MovieMeta, MovieTruth } from '../types';
-import { Logger } from '../utils/logger';
+import type { Env, MovieMeta, MovieRoast, MovieTruth } from '../types';
+import type { Span } from '../utils/tracing';
+import { getLanguageName } from '../utils/iso639';
+import { validateRoast, RoastValidationResult } from '../utils/roastValidator';
+import { insertRoastValidationFailure } from './database';
+import { recordApiCost, assertWithinBudget } from './costs';
+
+// Initial attempt + retries with the validation errors fed back to Claude
+const MAX_ROAST_ATTEMPTS = 3;
+
+type ClaudeMessage = { role: 'user' | 'assistant'; content: string };
+
+/**
+ * Extracts the JSON object from Claude's response text
+ */
+function extractJsonString(responseText: string): string {
+    // Claude sometimes wraps JSON in markdown code blocks (```json ... ```)
+    // This regex handles both ```json and plain ``` blocks
+    let jsonString = responseText;
+    const jsonMatch =
+        responseText.match(/```json\s*([\s\S]*?)\s*```/) || responseText.match(/```\s*([\s\S]*?)\s*```/);
+
+    if (jsonMatch) {
+        jsonString = jsonMatch[1];
+    } else {
+        // No code blocks - extract JSON object by finding matching braces
+        // This handles cases where Claude adds trailing text after the JSON
+        const firstBrace = responseText.indexOf('{');
+        if (firstBrace !== -1) {
+            let braceCount = 0;
+            let lastBrace = -1;
+            for (let i = firstBrace; i < responseText.length; i++) {
+                if (responseText[i] === '{') braceCount++;
+                else if (responseText[i] === '}') {
+                    braceCount--;
+                    if (braceCount === 0) {
+                        lastBrace = i;
+                        break;
+                    }
+                }
+            }
+            if (lastBrace !== -1) {
+                jsonString = responseText.substring(firstBrace, lastBrace + 1);
+            }
+        }
+    }
+
+    return jsonString.trim();
+}
+
+/**
+ * KV key for recent roasts - English keeps the original key, other languages get their own list
+ */
+function recentRoastsKey(language: string): string {
+    return language === 'en' ? 'recent_roasts' : `recent_roasts:${language}`;
+}
+
+/**
+ * Builds the output-language instruction for non-English roasts
+ */
+function buildLanguageInstruction(language: string): string {
+    if (language === 'en') return '';
+    const name = getLanguageName(language);
+    return `
+**OUTPUT LANGUAGE: ${name} (${language})**
+- Write every string value (headline, overview, roast, reception label, chips, similar movie descriptions, shareable caption) in ${name}, using its native script.
+- Keep the JSON keys in English exactly as specified.
+- Keep movie titles in "similar_movies" in their commonly known form; only the plot premise is translated.
+- Chips must still be EXACTLY 2 words each in ${name}.
+- The shareable_caption must still end with the literal hashtag #PlotBurn.
+- Write the way people actually text in ${name}, not formal or literary ${name}.
+`;
+}
 
 /**
  * Retrieves recent roasts from KV storage to provide context for avoiding repetition
  */
-async function getRecentRoasts(env: Env, limit: number = 5): Promise<string[]> {
+async function getRecentRoasts(env: Env, language: string = 'en', limit: number = 5): Promise<string[]> {
     try {
-        const stored = await env.RECENT_ROAST_KV.get('recent_roasts', 'json');
+        const stored = await env.RECENT_ROAST_KV.get(recentRoastsKey(language), 'json');
         if (!stored || !Array.isArray(stored)) {
             return [];
         }
@@ -31,15 +102,15 @@ async function getRecentRoasts(env: Env, limit: number = 5): Promise<string[]> {
 /**
  * Stores a new roast in KV storage for future reference
  */
-async function storeRoast(env: Env, roast: string): Promise<void> {
+async function storeRoast(env: Env, roast: string, language: string = 'en'): Promise<void> {
     try {
-        const existing = await env.RECENT_ROAST_KV.get('recent_roasts', 'json') || [];
+        const existing = await env.RECENT_ROAST_KV.get(recentRoastsKey(language), 'json') || [];
         const updated = Array.isArray(existing) ? [...existing, roast] : [roast];
         
         // Keep only last 10 roasts to manage storage
         const trimmed = updated.slice(-10);
         
-        await env.RECENT_ROAST_KV.put('recent_roasts', JSON.stringify(trimmed), {
+        await env.RECENT_ROAST_KV.put(recentRoastsKey(language), JSON.stringify(trimmed), {
             expirationTtl: 60 * 60 * 24 * 7 // Keep for 1 week
         });
     } catch (error) {
@@ -53,24 +124,35 @@ async function storeRoast(env: Env, roast: string): Promise<void> {
  * @param facts - Movie metadata from TMDB (title, genres, release date, etc.)
  * @param truth - Research data about the movie (plot summary, reception, etc.)
  * @param env - Environment variables containing API keys and configuration
- * @param correlationId - Unique identifier for request tracing and logging
- * @returns Promise containing the generated roast content as a parsed JSON object
+ * @param parent - Span the Claude call is traced under; its correlation ID is recorded with the cost
+ * @param language - ISO 639-1 code of the language the roast is written in (default 'en')
+ * @returns Promise containing the validated (and mechanically repaired) roast
+ * @throws Error if the output still violates the MovieRoast contract after MAX_ROAST_ATTEMPTS
+ * @throws BudgetExceededError if the Claude spend budget is exhausted
  *
  * @example
- * const roast = await generateRoast(movieFacts, movieTruth, env, 'req-123');
+ * const roast = await generateRoast(movieFacts, movieTruth, env, trace.root);
  * // Returns: { headline, overview, roast, reception, chips, similar_movies, shareable_caption }
  */
 export async function generateRoast(
     facts: MovieMeta,
     truth: MovieTruth,
     env: Env,
-    correlationId: string
-) {
-    // Initialize logger for tracking API calls and debugging
-    const logger = new Logger(env, '/api/claude/roast', 'POST', correlationId);
+    parent: Span,
+    language: string = 'en'
+): Promise<MovieRoast> {
+    return parent.trace('claude.roast', { movieId: facts.id, language }, (span) => requestRoast(facts, truth, env, span, language));
+}
+
+/**
+ * Claude call behind generateRoast, within its claude.roast span
+ */
+async function requestRoast(facts: MovieMeta, truth: MovieTruth, env: Env, span: Span, language: string): Promise<MovieRoast> {
+    // Refuse (or, in the queue, defer) work once the Claude budget is spent
+    await assertWithinBudget(env, 'claude');
 
     // Retrieve recent roasts to avoid repetition
-    const recentRoasts = await getRecentRoasts(env);
+    const recentRoasts = await getRecentRoasts(env, language);
 
     // Construct the request body for Claude API
     // Using the Messages API format with system prompts and user messages
@@ -173,7 +255,7 @@ IMPORTANT: Make sure your new roast has a DIFFERENT opening style, structure, an
 **Movie:** ${facts.title} (${facts.release_date.split('-')[0]})
 **Language:** ${facts.spoken_languages.find((l) => l.iso_639_1 === facts.original_language)?.english_name || facts.original_language}
 **Genre:** ${facts.genres.length > 0 ? facts.genres.map((g) => g.name).join(', ') : 'film'}
-
+${buildLanguageInstruction(language)}
 **Note:** This movie was released on ${facts.release_date}. If you have training knowledge about it (released before January 2025), leverage that to enrich your roast with specific plot details, memorable scenes, or filmmaking choices. Otherwise, rely solely on the research data below.
 
 **Research Data:**
@@ -236,132 +318,171 @@ ${truth.content}
   "shareable_caption": "string #PlotBurn"
 }`,
             },
-        ],
+        ] as ClaudeMessage[],
     };
 
-    // Track API call duration for logging and monitoring
-    const apiStartTime = Date.now();
+    // Conversation grows with each retry: the rejected answer plus the list of violations
+    const messages = body.messages;
+    let apiStartTime = Date.now();
 
     try {
-        // Make the API request to Anthropic's Messages endpoint
-        const res = await fetch('https://api.anthropic.com/v1/messages', {
-            method: 'POST',
-            headers: {
-                'x-api-key': env.CLAUDE_API_KEY, // API key from environment
-                'anthropic-version': '2023-06-01', // API version header (required)
-                'content-type': 'application/json',
-            },
-            body: JSON.stringify(body),
-        });
+        for (let attempt = 1; attempt <= MAX_ROAST_ATTEMPTS; attempt++) {
+            // Track API call duration for logging and monitoring
+            apiStartTime = Date.now();
+
+            // Make the API request to Anthropic's Messages endpoint
+            const res = await fetch('https://api.anthropic.com/v1/messages', {
+                method: 'POST',
+                headers: {
+                    'x-api-key': env.CLAUDE_API_KEY, // API key from environment
+                    'anthropic-version': '2023-06-01', // API version header (required)
+                    'content-type': 'application/json',
+                },
+                body: JSON.stringify({ ...body, messages }),
+            });
+
+            const apiDuration = Date.now() - apiStartTime;
+
+            // Handle API errors (non-2xx responses)
+            if (!res.ok) {
+                const errorText = await res.text();
+                // Log the failed API call for debugging
+                span.logExternalAPICall(
+                    'Claude (Roast Generation)',
+                    {
+                        movieId: facts.id.toString(),
+                        movieTitle: facts.title,
+                        model: 'claude-sonnet-4-5-20250929',
+                        stage: 'roast',
+                        attempt,
+                    },
+                    undefined,
+                    `${res.status} ${res.statusText}: ${errorText}`,
+                    apiDuration
+                );
+                throw new Error(`Claude API failed: ${res.status} ${res.statusText}`);
+            }
 
-        const apiDuration = Date.now() - apiStartTime;
+            // Parse the successful response
+            // Type assertion for Claude's response structure
+            const data = (await res.json()) as {
+                content: { text: string }[]; // Array of content blocks (text responses)
+                stop_reason: string; // Why generation stopped (e.g., 'end_turn', 'max_tokens')
+                usage?: {
+                    // Token usage statistics for billing/monitoring
+                    cache_creation_input_tokens?: number; // Tokens written to cache
+                    cache_read_input_tokens?: number; // Tokens read from cache
+                    input_tokens?: number; // Total input tokens
+                    output_tokens?: number; // Total output tokens
+                };
+            };
 
-        // Handle API errors (non-2xx responses)
-        if (!res.ok) {
-            const errorText = await res.text();
-            // Log the failed API call for debugging
-            await logger.logExternalAPICall(
+            // Log successful API call with usage statistics
+            span.logExternalAPICall(
                 'Claude (Roast Generation)',
                 {
                     movieId: facts.id.toString(),
                     movieTitle: facts.title,
-                    model: 'claude-sonnet-4-5-20250929',
+                    model: body.model,
+                    language,
+                    temperature: body.temperature,
+                    max_tokens: body.max_tokens,
                     stage: 'roast',
+                    attempt,
+                    // Include cache statistics for monitoring prompt caching effectiveness
+                    cache_stats: {
+                        cache_creation_input_tokens: data.usage?.cache_creation_input_tokens || 0,
+                        cache_read_input_tokens: data.usage?.cache_read_input_tokens || 0,
+                        input_tokens: data.usage?.input_tokens || 0,
+                        output_tokens: data.usage?.output_tokens || 0,
+                    },
+                },
+                {
+                    response_length: data.content[0].text.length,
+                    stop_reason: data.stop_reason,
                 },
                 undefined,
-                `${res.status} ${res.statusText}: ${errorText}`,
                 apiDuration
             );
-            throw new Error(`Claude API failed: ${res.status} ${res.statusText}`);
-        }
 
-        // Parse the successful response
-        // Type assertion for Claude's response structure
-        const data = (await res.json()) as {
-            content: { text: string }[]; // Array of content blocks (text responses)
-            stop_reason: string; // Why generation stopped (e.g., 'end_turn', 'max_tokens')
-            usage?: {
-                // Token usage statistics for billing/monitoring
-                cache_creation_input_tokens?: number; // Tokens written to cache
-                cache_read_input_tokens?: number; // Tokens read from cache
-                input_tokens?: number; // Total input tokens
-                output_tokens?: number; // Total output tokens
-            };
-        };
-
-        // Log successful API call with usage statistics
-        await logger.logExternalAPICall(
-            'Claude (Roast Generation)',
-            {
-                movieId: facts.id.toString(),
-                movieTitle: facts.title,
+            // Every attempt is billed, including ones rejected by validation
+            await recordApiCost(env, {
+                provider: 'claude',
                 model: body.model,
-                temperature: body.temperature,
-                max_tokens: body.max_tokens,
-                stage: 'roast',
-                // Include cache statistics for monitoring prompt caching effectiveness
-                cache_stats: {
-                    cache_creation_input_tokens: data.usage?.cache_creation_input_tokens || 0,
-                    cache_read_input_tokens: data.usage?.cache_read_input_tokens || 0,
+                operation: 'roast',
+                movieId: facts.id,
+                correlationId: span.correlationId,
+                usage: {
                     input_tokens: data.usage?.input_tokens || 0,
                     output_tokens: data.usage?.output_tokens || 0,
+                    cache_write_tokens: data.usage?.cache_creation_input_tokens || 0,
+                    cache_read_tokens: data.usage?.cache_read_input_tokens || 0,
                 },
-            },
-            {
-                response_length: data.content[0].text.length,
-                stop_reason: data.stop_reason,
-            },
-            undefined,
-            apiDuration
-        );
+            });
+
+            // Extract and validate JSON from Claude's response text
+            const responseText = data.content[0].text;
+
+            let parsed: unknown = null;
+            let validation: RoastValidationResult;
+            try {
+                parsed = JSON.parse(extractJsonString(responseText));
+                validation = validateRoast(parsed, language);
+            } catch {
+                validation = { roast: null, violations: ['Response was not valid JSON'], repairs: [] };
+            }
 
-        // Extract JSON from Claude's response text
-        const responseText = data.content[0].text;
-
-        // Claude sometimes wraps JSON in markdown code blocks (```json ... ```)
-        // This regex handles both ```json and plain ``` blocks
-        let jsonString = responseText;
-        const jsonMatch =
-            responseText.match(/```json\s*([\s\S]*?)\s*```/) || responseText.match(/```\s*([\s\S]*?)\s*```/);
-
-        if (jsonMatch) {
-            jsonString = jsonMatch[1];
-        } else {
-            // No code blocks - extract JSON object by finding matching braces
-            // This handles cases where Claude adds trailing text after the JSON
-            const firstBrace = responseText.indexOf('{');
-            if (firstBrace !== -1) {
-                let braceCount = 0;
-                let lastBrace = -1;
-                for (let i = firstBrace; i < responseText.length; i++) {
-                    if (responseText[i] === '{') braceCount++;
-                    else if (responseText[i] === '}') {
-                        braceCount--;
-                        if (braceCount === 0) {
-                            lastBrace = i;
-                            break;
-                        }
-                    }
-                }
-                if (lastBrace !== -1) {
-                    jsonString = responseText.substring(firstBrace, lastBrace + 1);
-                }
+            if (validation.repairs.length > 0) {
+                span.logDebug('Repaired roast output', { movieId: facts.id.toString(), attempt, repairs: validation.repairs });
+            }
+
+            if (validation.roast) {
+                // Store the roast text for future repetition avoidance
+                await storeRoast(env, validation.roast.roast, language);
+                return validation.roast;
             }
-        }
 
-        // Parse the JSON response
-        const parsedRoast = JSON.parse(jsonString.trim());
+            // Record the rejected output so bad roasts can be reviewed
+            span.logWarn('Roast failed validation', { movieId: facts.id.toString(), attempt, violations: validation.violations });
+            try {
+                await insertRoastValidationFailure(env, {
+                    movieId: facts.id,
+                    language,
+                    attempt,
+                    violations: validation.violations,
+                    responseText,
+                    correlationId: span.correlationId,
+                });
+            } catch (dbError) {
+                console.error('Failed to record roast validation failure:', dbError);
+            }
+
+            if (attempt === MAX_ROAST_ATTEMPTS) {
+                throw new Error(
+                    `Claude roast failed validation after ${MAX_ROAST_ATTEMPTS} attempts: ${validation.violations.join('; ')}`
+                );
+            }
 
-        // Store the roast text for future repetition avoidance
-        await storeRoast(env, parsedRoast.roast);
+            // Ask Claude to fix exactly what was wrong
+            messages.push(
+                { role: 'assistant', content: responseText },
+                {
+                    role: 'user',
+                    content: `Your JSON did not follow the required format:\n${validation.violations
+                        .map((v) => `- ${v}`)
+                        .join('\n')}\n\nReturn the complete corrected JSON object only, with the same keys.`,
+                }
+            );
+        }
 
-        return parsedRoast;
+        // Unreachable: the loop either returns or throws on the last attempt
+        throw new Error('Claude roast generation exhausted all attempts');
     } catch (error) {
         // Handle any errors during the API call or response processing
         const apiDuration = Date.now() - apiStartTime;
 
         // Log the error for debugging
-        await logger.logExternalAPICall(
+        span.logExternalAPICall(
             'Claude (Roast Generation)',
             {
                 movieId: facts.id.toString(),
@@ -377,4 +498,4 @@ ${truth.content}
         // Re-throw the error to be handled by the caller
         throw error;
     }
-}
\ No newline at end of file
+}
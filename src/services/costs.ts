@@ -0,0 +1,157 @@
+import type { Env, ApiProvider, ApiUsage, ModelPrice, ProviderBudget, ProviderBudgetStatus } from '../types';
+import { DEFAULT_API_PRICES, USD_TO_INR } from '../constants';
+import { insertApiCost, getProviderSpend } from './database';
+
+const BUDGET_PROVIDERS: ApiProvider[] = ['brave', 'grok', 'claude'];
+
+/**
+ * Thrown before a paid API call when the provider's daily or monthly budget is spent
+ * Queue work is deferred until retryAt; API requests are refused with 503
+ */
+export class BudgetExceededError extends Error {
+	constructor(
+		public provider: ApiProvider,
+		public retryAt: Date
+	) {
+		super(`${provider} spend budget exhausted until ${retryAt.toISOString()}`);
+		this.name = 'BudgetExceededError';
+	}
+}
+
+/**
+ * Price table: DEFAULT_API_PRICES with per-model overrides from the PRICE_TABLE env var (JSON)
+ */
+export function getPriceTable(env: Env): Record<string, ModelPrice> {
+	if (!env.PRICE_TABLE) return DEFAULT_API_PRICES;
+
+	try {
+		const overrides = JSON.parse(env.PRICE_TABLE) as Record<string, ModelPrice>;
+		return { ...DEFAULT_API_PRICES, ...overrides };
+	} catch {
+		console.error('[COSTS] PRICE_TABLE is not valid JSON, using default prices');
+		return DEFAULT_API_PRICES;
+	}
+}
+
+/**
+ * Computes the USD cost of a call from the price table. Unknown models cost 0 (and are logged).
+ */
+export function calculateCost(env: Env, model: string, usage: ApiUsage): { usd: number; inr: number } {
+	const price = getPriceTable(env)[model];
+	if (!price) {
+		console.warn(`[COSTS] No price configured for model ${model}`);
+		return { usd: 0, inr: 0 };
+	}
+
+	const usd =
+		((usage.input_tokens || 0) * (price.input_per_mtok || 0) +
+			(usage.output_tokens || 0) * (price.output_per_mtok || 0) +
+			(usage.cache_write_tokens || 0) * (price.cache_write_per_mtok || 0) +
+			(usage.cache_read_tokens || 0) * (price.cache_read_per_mtok || 0)) /
+			1_000_000 +
+		(usage.requests ?? 1) * (price.per_request || 0);
+
+	return { usd, inr: usd * USD_TO_INR };
+}
+
+/**
+ * Prices a call and writes it to the cost ledger
+ * Ledger failures are logged and never fail the call being recorded
+ * @returns the USD cost of the call
+ */
+export async function recordApiCost(
+	env: Env,
+	entry: {
+		provider: ApiProvider;
+		model: string;
+		operation: string;
+		movieId: number | null;
+		correlationId: string | null;
+		usage: ApiUsage;
+	}
+): Promise<number> {
+	const cost = calculateCost(env, entry.model, entry.usage);
+
+	try {
+		await insertApiCost(env, { ...entry, costUsd: cost.usd, costInr: cost.inr });
+	} catch (error) {
+		console.error('[COSTS] Failed to record API cost:', error);
+	}
+
+	return cost.usd;
+}
+
+/**
+ * Budgets per provider from the SPEND_BUDGETS env var (JSON); providers without one are unlimited
+ */
+export function getBudgets(env: Env): Partial<Record<ApiProvider, ProviderBudget>> {
+	if (!env.SPEND_BUDGETS) return {};
+
+	try {
+		return JSON.parse(env.SPEND_BUDGETS) as Partial<Record<ApiProvider, ProviderBudget>>;
+	} catch {
+		console.error('[COSTS] SPEND_BUDGETS is not valid JSON, budgets are disabled');
+		return {};
+	}
+}
+
+/**
+ * Spend against the daily (UTC day) and monthly (UTC calendar month) budget of each provider
+ */
+export async function getBudgetStatus(env: Env, providers: ApiProvider[] = BUDGET_PROVIDERS): Promise<ProviderBudgetStatus[]> {
+	const now = new Date();
+	const dayStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+	const monthStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+	const nextDay = new Date(dayStart + 24 * 60 * 60 * 1000);
+	const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+	const spend = await getProviderSpend(
+		env,
+		Math.floor(dayStart / 1000),
+		Math.floor(monthStart / 1000),
+		providers.length === 1 ? providers[0] : undefined
+	);
+	const budgets = getBudgets(env);
+
+	return providers.map((provider) => {
+		const row = spend.find((s) => s.provider === provider);
+		const budget = budgets[provider] || {};
+		const dailySpent = row?.daily_usd || 0;
+		const monthlySpent = row?.monthly_usd || 0;
+
+		const dailyExceeded = budget.daily_usd !== undefined && dailySpent >= budget.daily_usd;
+		const monthlyExceeded = budget.monthly_usd !== undefined && monthlySpent >= budget.monthly_usd;
+
+		return {
+			provider,
+			daily: {
+				limit_usd: budget.daily_usd ?? null,
+				spent_usd: dailySpent,
+				remaining_usd: budget.daily_usd !== undefined ? Math.max(0, budget.daily_usd - dailySpent) : null,
+				resets_at: nextDay.toISOString(),
+			},
+			monthly: {
+				limit_usd: budget.monthly_usd ?? null,
+				spent_usd: monthlySpent,
+				remaining_usd: budget.monthly_usd !== undefined ? Math.max(0, budget.monthly_usd - monthlySpent) : null,
+				resets_at: nextMonth.toISOString(),
+			},
+			exceeded: dailyExceeded || monthlyExceeded,
+			// A spent monthly budget outlasts the daily reset
+			retry_at: monthlyExceeded ? nextMonth.toISOString() : dailyExceeded ? nextDay.toISOString() : null,
+		};
+	});
+}
+
+/**
+ * Throws BudgetExceededError when the provider has no budget left
+ * Skips the ledger query entirely when the provider has no budget configured
+ */
+export async function assertWithinBudget(env: Env, provider: ApiProvider): Promise<void> {
+	if (!getBudgets(env)[provider]) return;
+
+	const [status] = await getBudgetStatus(env, [provider]);
+	if (status.exceeded && status.retry_at) {
+		throw new BudgetExceededError(provider, new Date(status.retry_at));
+	}
+}
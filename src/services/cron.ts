@@ -1,4 +1,102 @@
-import type { Env } from '../types';
+import type { Env, CronRunStatus, CronHistoryEntry } from '../types';
+import { getGenerationJobsByCronRun } from './database';
+import { DEFAULT_CRON_LOCK_TIMEOUT_MINUTES } from '../constants';
+
+/**
+ * How long a run keeps its lock without a heartbeat (CRON_LOCK_TIMEOUT_MINUTES)
+ */
+export function getCronLockTimeoutMs(env: Env): number {
+	const minutes = parseInt(env.CRON_LOCK_TIMEOUT_MINUTES || '');
+	return (minutes > 0 ? minutes : DEFAULT_CRON_LOCK_TIMEOUT_MINUTES) * 60 * 1000;
+}
+
+/**
+ * Get a cron run by ID, whatever its job
+ */
+export async function getCronRun(env: Env, runId: number): Promise<{ id: number; job_name: string; status: CronRunStatus } | null> {
+	const run = await env.plotburn_db.prepare(`
+		SELECT id, job_name, status FROM cron_runs WHERE id = ?
+	`).bind(runId).first<{ id: number; job_name: string; status: CronRunStatus }>();
+
+	return run || null;
+}
+
+/**
+ * Writes the queue outcome of a run's generation jobs back to cron_runs.
+ * Called by the queue consumer whenever one of the run's jobs reaches a final status.
+ * Counts are always refreshed; once no job is open, a running run finishes as
+ * success (nothing dead-lettered), partial (some dead-lettered) or failed (all dead-lettered).
+ * Finished partial and failed runs are re-evaluated as replayed dead letters finish, so they
+ * can still become success. A run whose dispatch failed (failRun) keeps its error and ends
+ * as at best partial, since some of its movies were never queued.
+ */
+export async function syncCronRunProgress(env: Env, runId: number): Promise<void> {
+	const jobs = await getGenerationJobsByCronRun(env, runId);
+	const roasted = jobs.filter((job) => job.status === 'succeeded');
+	const skipped = jobs.filter((job) => job.status === 'skipped').length;
+	const failed = jobs.filter((job) => job.status === 'dead_lettered').length;
+	const open = jobs.length - roasted.length - skipped - failed;
+
+	const now = Date.now();
+
+	// A finished job is progress: it also renews the lease of an active run
+	await env.plotburn_db.prepare(`
+		UPDATE cron_runs
+		SET movies_roasted_count = ?, movies_skipped_count = ?, movies_failed_count = ?, movie_titles = ?,
+			heartbeat_at = CASE WHEN status IN ('dispatching', 'running') THEN ? ELSE heartbeat_at END,
+			lease_expires_at = CASE WHEN status IN ('dispatching', 'running') THEN ? ELSE lease_expires_at END
+		WHERE id = ?
+	`).bind(roasted.length, skipped, failed, roasted.map((job) => job.title).join(", "), now, now + getCronLockTimeoutMs(env), runId).run();
+
+	if (open > 0 || jobs.length === 0) return;
+
+	const status: CronRunStatus = failed === 0 ? 'success' : failed === jobs.length ? 'failed' : 'partial';
+
+	// Still dispatching: markDispatched syncs again once every message is sent
+	// The error column is only set by failRun, i.e. dispatching stopped early
+	const result = await env.plotburn_db.prepare(`
+		UPDATE cron_runs
+		SET status = CASE WHEN error IS NOT NULL AND ? = 'success' THEN 'partial' ELSE ? END,
+			finished_at = ?, duration_ms = ? - started_at
+		WHERE id = ? AND status IN ('running', 'partial', 'failed')
+	`).bind(status, status, now, now, runId).run();
+
+	if (result.meta.changes > 0) {
+		console.log(`[CronTracker] Run #${runId} finished: ${status} (${roasted.length} roasted, ${skipped} skipped, ${failed} failed)`);
+	}
+}
+
+/**
+ * Keeps an active run's lock until at least leaseExpiresAt (unix ms), e.g. while its
+ * jobs are deferred by a spend budget and no job reaches a final status for hours
+ */
+export async function extendCronRunLease(env: Env, runId: number, leaseExpiresAt: number): Promise<void> {
+	await env.plotburn_db.prepare(`
+		UPDATE cron_runs
+		SET heartbeat_at = ?, lease_expires_at = MAX(COALESCE(lease_expires_at, 0), ?)
+		WHERE id = ? AND status IN ('dispatching', 'running')
+	`).bind(Date.now(), leaseExpiresAt, runId).run();
+}
+
+/**
+ * Recent runs, newest first; all jobs when jobName is null
+ */
+export async function getCronRuns(env: Env, jobName: string | null, limit: number = 20): Promise<CronHistoryEntry[]> {
+	const result = jobName
+		? await env.plotburn_db.prepare(`
+			SELECT * FROM cron_runs
+			WHERE job_name = ?
+			ORDER BY started_at DESC
+			LIMIT ?
+		`).bind(jobName, limit).all<CronHistoryEntry>()
+		: await env.plotburn_db.prepare(`
+			SELECT * FROM cron_runs
+			ORDER BY started_at DESC
+			LIMIT ?
+		`).bind(limit).all<CronHistoryEntry>();
+
+	return result.results;
+}
 
 export class CronTracker {
 	private env: Env;
@@ -9,18 +107,44 @@ export class CronTracker {
 		this.jobName = jobName;
 	}
 
+	/**
+	 * Marks active runs whose lease expired as abandoned, releasing the lock
+	 * (e.g. the Worker was evicted mid-run). Runs from before leases existed expire
+	 * CRON_LOCK_TIMEOUT_MINUTES after they started.
+	 */
+	async reapStaleRuns(): Promise<number> {
+		const now = Date.now();
+		const timeout = getCronLockTimeoutMs(this.env);
+
+		const res = await this.env.plotburn_db.prepare(`
+			UPDATE cron_runs
+			SET status = 'abandoned', finished_at = ?, duration_ms = ? - started_at,
+				error = 'Lock lease expired without a heartbeat'
+			WHERE job_name = ? AND status IN ('dispatching', 'running')
+				AND COALESCE(lease_expires_at, started_at + ?) < ?
+		`).bind(now, now, this.jobName, timeout, now).run();
+
+		if (res.meta.changes > 0) {
+			console.warn(`[CronTracker] Reaped ${res.meta.changes} stale ${this.jobName} run(s) as abandoned`);
+		}
+		return res.meta.changes;
+	}
+
 	/**
 	 * Attempt to acquire a lock for this job.
+	 * Stale runs are reaped first; the lock is a lease renewed by heartbeat().
 	 * Returns the runId if successful, or throws an error if the job is already running.
 	 */
 	async startRun(): Promise<number> {
 		const now = Date.now();
 		
 		try {
-			// 1. Check if job is already running
+			await this.reapStaleRuns();
+
+			// 1. Check if job is already running (including runs waiting for their queue messages)
 			const active = await this.env.plotburn_db.prepare(`
 				SELECT id FROM cron_runs
-				WHERE job_name = ? AND status = 'running'
+				WHERE job_name = ? AND status IN ('dispatching', 'running')
 				LIMIT 1
 			`).bind(this.jobName).first();
 
@@ -30,9 +154,9 @@ export class CronTracker {
 
 			// 2. Insert new run - this will fail at DB level if unique constraint is violated
 			const res = await this.env.plotburn_db.prepare(`
-				INSERT INTO cron_runs (job_name, started_at, status)
-				VALUES (?, ?, 'running')
-			`).bind(this.jobName, now).run();
+				INSERT INTO cron_runs (job_name, started_at, status, heartbeat_at, lease_expires_at)
+				VALUES (?, ?, 'dispatching', ?, ?)
+			`).bind(this.jobName, now, now, now + getCronLockTimeoutMs(this.env)).run();
 
 			return res.meta.last_row_id as number;
 		} catch (e: any) {
@@ -48,20 +172,67 @@ export class CronTracker {
 	}
 
 	/**
-	 * Update progress for the current run.
+	 * Renew the lock lease of an active run.
 	 */
-	async updateProgress(runId: number, titles: string[], count: number) {
+	async heartbeat(runId: number) {
+		const now = Date.now();
+
 		await this.env.plotburn_db.prepare(`
 			UPDATE cron_runs
-			SET movies_roasted_count = ?, movie_titles = ?
-			WHERE id = ?
-		`).bind(count, titles.join(", "), runId).run();
+			SET heartbeat_at = ?, lease_expires_at = ?
+			WHERE id = ? AND status IN ('dispatching', 'running')
+		`).bind(now, now + getCronLockTimeoutMs(this.env), runId).run();
+	}
+
+	/**
+	 * Force-release the lock: marks this job's active runs as abandoned.
+	 * Returns the released runs. Their queued messages still finish and update the counts.
+	 */
+	async releaseLock(reason: string): Promise<CronHistoryEntry[]> {
+		const active = await this.env.plotburn_db.prepare(`
+			SELECT id FROM cron_runs
+			WHERE job_name = ? AND status IN ('dispatching', 'running')
+		`).bind(this.jobName).all<{ id: number }>();
+
+		const now = Date.now();
+		const released: CronHistoryEntry[] = [];
+		for (const { id } of active.results) {
+			const run = await this.env.plotburn_db.prepare(`
+				UPDATE cron_runs
+				SET status = 'abandoned', finished_at = ?, duration_ms = ? - started_at, error = ?
+				WHERE id = ? AND status IN ('dispatching', 'running')
+				RETURNING *
+			`).bind(now, now, reason, id).first<CronHistoryEntry>();
+			if (run) released.push(run);
+		}
+
+		return released;
 	}
 
 	/**
-	 * Mark the run as successful.
+	 * Every message is queued: the run stays running until the queue consumer
+	 * has finished all of them (see syncCronRunProgress). A run that queued nothing completes now.
 	 */
-	async completeRun(runId: number, cursor: string | null = null) {
+	async markDispatched(runId: number, queuedCount: number) {
+		if (queuedCount === 0) {
+			await this.completeRun(runId, null);
+			return;
+		}
+
+		await this.env.plotburn_db.prepare(`
+			UPDATE cron_runs
+			SET status = 'running', movies_queued_count = ?
+			WHERE id = ? AND status = 'dispatching'
+		`).bind(queuedCount, runId).run();
+
+		// Messages may have been processed while the rest were still being sent
+		await syncCronRunProgress(this.env, runId);
+	}
+
+	/**
+	 * Mark the run as successful (no-op once the run was abandoned).
+	 */
+	async completeRun(runId: number, cursor: string | null = null, summary: Record<string, number> | null = null) {
 		// Get started_at to calculate duration
 		const run = await this.env.plotburn_db.prepare(`
 			SELECT started_at FROM cron_runs WHERE id = ?
@@ -72,13 +243,13 @@ export class CronTracker {
 		
 		await this.env.plotburn_db.prepare(`
 			UPDATE cron_runs
-			SET finished_at = ?, duration_ms = ?, status = 'success', cursor = ?
-			WHERE id = ?
-		`).bind(now, duration, cursor, runId).run();
+			SET finished_at = ?, duration_ms = ?, status = 'success', cursor = ?, summary_json = ?
+			WHERE id = ? AND status IN ('dispatching', 'running')
+		`).bind(now, duration, cursor, summary ? JSON.stringify(summary) : null, runId).run();
 	}
 
 	/**
-	 * Mark the run as failed.
+	 * Mark the run as failed (no-op once the run was abandoned).
 	 */
 	async failRun(runId: number, error: unknown) {
 		const errorMessage = error instanceof Error ? error.message : String(error);
@@ -94,21 +265,7 @@ export class CronTracker {
 		await this.env.plotburn_db.prepare(`
 			UPDATE cron_runs
 			SET finished_at = ?, duration_ms = ?, status = 'failed', error = ?
-			WHERE id = ?
+			WHERE id = ? AND status IN ('dispatching', 'running')
 		`).bind(now, duration, errorMessage, runId).run();
 	}
-	
-	/**
-	 * Get recent history for this job.
-	 */
-	async getHistory(limit: number = 20) {
-		const result = await this.env.plotburn_db.prepare(`
-			SELECT * FROM cron_runs
-			WHERE job_name = ?
-			ORDER BY started_at DESC
-			LIMIT ?
-		`).bind(this.jobName, limit).all();
-		
-		return result.results;
-	}
 }
@@ -1,4 +1,18 @@
-import type { Env, TMDBMovieDetails, MovieRoast, StreamingProviderDB } from '../types';
+import type {
+	Env,
+	TMDBMovieDetails,
+	MovieRoast,
+	StreamingProviderDB,
+	ExtractionCompleteness,
+	ApiProvider,
+	ApiUsage,
+	CostGroupBy,
+	CostReportRow,
+	GenerationJobType,
+	GenerationJobStatus,
+	MovieQueueMessage,
+	DeadLetterStatus,
+} from '../types';
 
 // ============= TYPE DEFINITIONS =============
 
@@ -29,6 +43,8 @@ export interface DBExtraction {
 	completion_tokens: number | null;
 	total_tokens: number | null;
 	total_cost: number | null;
+	completeness_score?: number | null; // 0-1, see normalizeExtraction
+	completeness_json?: string | null; // JSON string of ExtractionCompleteness
 }
 
 export interface DBRoast {
@@ -39,6 +55,58 @@ export interface DBRoast {
 	created_at: number;
 	is_featured: number; // 0 or 1 (SQLite boolean)
 	is_active: number; // 0 or 1 (soft versioning)
+	regeneration_reason?: string | null; // Set when the roast was force-regenerated
+	regenerated_by?: string | null; // Requester of the forced regeneration
+}
+
+export interface DBApiKey {
+	id: number;
+	name: string;
+	key_hash: string;
+	key_prefix: string;
+	scopes: string;
+	created_at: number;
+	revoked_at: number | null;
+	last_used_at: number | null;
+	expires_at: number | null;
+	rotated_from: number | null;
+}
+
+export interface DBGenerationJob {
+	id: number;
+	type: GenerationJobType;
+	movie_id: number;
+	title: string | null;
+	language: string;
+	status: GenerationJobStatus;
+	cron_run_id: number | null;
+	correlation_id: string | null;
+	attempts: number;
+	created_at: number;
+	started_at: number | null;
+	finished_at: number | null;
+	last_error: string | null;
+}
+
+export interface DBDeadLetter {
+	id: number;
+	job_id: number | null;
+	type: GenerationJobType;
+	movie_id: number;
+	title: string;
+	language: string;
+	correlation_id: string;
+	message_json: string;
+	attempts: number;
+	last_error: string | null;
+	status: DeadLetterStatus;
+	received_at: number;
+	resolved_at: number | null;
+}
+
+export interface FeedCursor {
+	position: number; // movie_categories.position of the last row on the previous page
+	id: number; // movies.id of the last row on the previous page (tie-breaker)
 }
 
 // ============= MOVIE OPERATIONS =============
@@ -80,7 +148,7 @@ export async function upsertMovie(env: Env, movie: TMDBMovieDetails, language: s
 }
 
 /**
- * Add a movie to a category (many-to-many relationship)
+ * Add a movie to a category (many-to-many relationship), after the movies already in it
  */
 export async function addMovieToCategory(env: Env, movieId: number, category: string): Promise<void> {
 	const now = Math.floor(Date.now() / 1000);
@@ -89,10 +157,10 @@ export async function addMovieToCategory(env: Env, movieId: number, category: st
 	
 	const result = await env.plotburn_db
 		.prepare(
-			`INSERT OR IGNORE INTO movie_categories (movie_id, category, added_at)
-       VALUES (?, ?, ?)`
+			`INSERT OR IGNORE INTO movie_categories (movie_id, category, added_at, position)
+       VALUES (?, ?, ?, (SELECT COALESCE(MAX(position) + 1, 0) FROM movie_categories WHERE category = ?))`
 		)
-		.bind(movieId, category, now)
+		.bind(movieId, category, now, category)
 		.run();
 	
 	console.log(`[DB] Inserted into movie_categories: success=${result.success}, changes=${result.meta.changes}, movieId=${movieId}, category=${category}`);
@@ -188,7 +256,7 @@ export async function getMoviesByCategory(
        FROM movies m
        INNER JOIN movie_categories mc ON m.id = mc.movie_id
        WHERE mc.category = ?
-       ORDER BY mc.added_at DESC
+       ORDER BY mc.position, m.id
        LIMIT ? OFFSET ?`
 		)
 		.bind(category, limit, offset)
@@ -252,14 +320,15 @@ export async function insertExtraction(
 			total_tokens: number;
 			total_cost: number;
 		};
+		completeness?: ExtractionCompleteness | null;
 	}
 ): Promise<number> {
 	const now = Math.floor(Date.now() / 1000);
 
 	const result = await env.plotburn_db
 		.prepare(
-			`INSERT INTO extractions (movie_id, source, model, fetched_at, content_json, evidence_json, citations_json, prompt_tokens, completion_tokens, total_tokens, total_cost)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+			`INSERT INTO extractions (movie_id, source, model, fetched_at, content_json, evidence_json, citations_json, prompt_tokens, completion_tokens, total_tokens, total_cost, completeness_score, completeness_json)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
 		)
 		.bind(
 			movieId,
@@ -272,7 +341,9 @@ export async function insertExtraction(
 			extraction.usage.prompt_tokens,
 			extraction.usage.completion_tokens,
 			extraction.usage.total_tokens,
-			extraction.usage.total_cost
+			extraction.usage.total_cost,
+			extraction.completeness?.score ?? null,
+			extraction.completeness ? JSON.stringify(extraction.completeness) : null
 		)
 		.run();
 
@@ -285,7 +356,7 @@ export async function insertExtraction(
 export async function getLatestExtraction(env: Env, movieId: number): Promise<DBExtraction | null> {
 	const result = await env.plotburn_db
 		.prepare(
-			`SELECT id, movie_id, source, model, fetched_at, content_json, evidence_json, citations_json, prompt_tokens, completion_tokens, total_tokens, total_cost
+			`SELECT id, movie_id, source, model, fetched_at, content_json, evidence_json, citations_json, prompt_tokens, completion_tokens, total_tokens, total_cost, completeness_score, completeness_json
        FROM extractions
        WHERE movie_id = ?
        ORDER BY fetched_at DESC
@@ -297,13 +368,29 @@ export async function getLatestExtraction(env: Env, movieId: number): Promise<DB
 	return result || null;
 }
 
+/**
+ * Get a single extraction by ID
+ */
+export async function getExtractionById(env: Env, extractionId: number): Promise<DBExtraction | null> {
+	const result = await env.plotburn_db
+		.prepare(
+			`SELECT id, movie_id, source, model, fetched_at, content_json, evidence_json, citations_json, prompt_tokens, completion_tokens, total_tokens, total_cost, completeness_score, completeness_json
+       FROM extractions
+       WHERE id = ?`
+		)
+		.bind(extractionId)
+		.first<DBExtraction>();
+
+	return result || null;
+}
+
 /**
  * Get all extractions for a movie
  */
 export async function getExtractionsByMovie(env: Env, movieId: number): Promise<DBExtraction[]> {
 	const result = await env.plotburn_db
 		.prepare(
-			`SELECT id, movie_id, source, model, fetched_at, content_json, evidence_json, citations_json, prompt_tokens, completion_tokens, total_tokens, total_cost
+			`SELECT id, movie_id, source, model, fetched_at, content_json, evidence_json, citations_json, prompt_tokens, completion_tokens, total_tokens, total_cost, completeness_score, completeness_json
        FROM extractions
        WHERE movie_id = ?
        ORDER BY fetched_at DESC`
@@ -314,6 +401,29 @@ export async function getExtractionsByMovie(env: Env, movieId: number): Promise<
 	return result.results;
 }
 
+/**
+ * Get movies released on/after a date together with the time of their latest extraction
+ * Used by the truth refresh job to find candidates for re-research
+ */
+export async function getTruthRefreshCandidates(
+	env: Env,
+	releasedSince: string
+): Promise<Array<{ id: number; title: string; release_date: string | null; last_fetched_at: number }>> {
+	const result = await env.plotburn_db
+		.prepare(
+			`SELECT m.id, m.title, m.release_date, MAX(e.fetched_at) as last_fetched_at
+       FROM movies m
+       INNER JOIN extractions e ON m.id = e.movie_id
+       WHERE m.release_date >= ?
+       GROUP BY m.id
+       ORDER BY m.release_date DESC`
+		)
+		.bind(releasedSince)
+		.all<{ id: number; title: string; release_date: string | null; last_fetched_at: number }>();
+
+	return result.results;
+}
+
 /**
  * Get all extractions with pagination
  */
@@ -332,7 +442,7 @@ export async function getAllExtractions(
 	// Get extractions
 	const extractionsResult = await env.plotburn_db
 		.prepare(
-			`SELECT id, movie_id, source, model, fetched_at, content_json, evidence_json, citations_json, prompt_tokens, completion_tokens, total_tokens, total_cost
+			`SELECT id, movie_id, source, model, fetched_at, content_json, evidence_json, citations_json, prompt_tokens, completion_tokens, total_tokens, total_cost, completeness_score, completeness_json
        FROM extractions
        ORDER BY fetched_at DESC
        LIMIT ? OFFSET ?`
@@ -348,40 +458,50 @@ export async function getAllExtractions(
 
 // ============= ROAST OPERATIONS =============
 
-/**
- * Deactivate all existing roasts for a movie+language before inserting new one
- */
-async function deactivateOldRoasts(env: Env, movieId: number, language: string = 'en'): Promise<void> {
-	await env.plotburn_db
-		.prepare(
-			`UPDATE roasts 
-       SET is_active = 0 
-       WHERE movie_id = ? AND language = ? AND is_active = 1`
-		)
-		.bind(movieId, language)
-		.run();
-}
-
 /**
  * Insert a new roast for a movie (with soft versioning)
- * Deactivates previous roasts for the same movie+language
+ * Deactivates previous roasts for the same movie+language in the same batch,
+ * so a failed insert never leaves the movie without an active roast
+ * The feature schedule belongs to the movie+language, so the new version inherits it
  */
-export async function upsertRoast(env: Env, movieId: number, roast: MovieRoast, language: string = 'en'): Promise<number> {
+export async function upsertRoast(
+	env: Env,
+	movieId: number,
+	roast: MovieRoast,
+	language: string = 'en',
+	regeneration?: { reason: string; requestedBy: string }
+): Promise<number> {
 	const now = Math.floor(Date.now() / 1000);
 
-	// Deactivate old roasts for this movie+language
-	await deactivateOldRoasts(env, movieId, language);
-
-	// Insert new active roast
-	const result = await env.plotburn_db
-		.prepare(
-			`INSERT INTO roasts (movie_id, roast_json, language, created_at, is_featured, is_active)
-       VALUES (?, ?, ?, ?, 0, 1)`
-		)
-		.bind(movieId, JSON.stringify(roast), language, now)
-		.run();
-
-	return result.meta.last_row_id || 0;
+	const results = await env.plotburn_db.batch([
+		// Insert the new roast inactive, copying the feature schedule of the active one
+		env.plotburn_db
+			.prepare(
+				`INSERT INTO roasts (movie_id, roast_json, language, created_at, is_featured, featured_starts_at, featured_ends_at, featured_rank, is_active, regeneration_reason, regenerated_by)
+       SELECT ?, ?, ?, ?, COALESCE(active.is_featured, 0), active.featured_starts_at, active.featured_ends_at, active.featured_rank, 0, ?, ?
+       FROM (SELECT 1)
+       LEFT JOIN roasts active ON active.movie_id = ? AND active.language = ? AND active.is_active = 1`
+			)
+			.bind(movieId, JSON.stringify(roast), language, now, regeneration?.reason ?? null, regeneration?.requestedBy ?? null, movieId, language),
+		// Deactivate old roasts for this movie+language
+		env.plotburn_db
+			.prepare(
+				`UPDATE roasts 
+       SET is_active = 0 
+       WHERE movie_id = ? AND language = ? AND is_active = 1`
+			)
+			.bind(movieId, language),
+		// Activate the new roast (AUTOINCREMENT ids only grow)
+		env.plotburn_db
+			.prepare(
+				`UPDATE roasts
+       SET is_active = 1
+       WHERE id = (SELECT MAX(id) FROM roasts WHERE movie_id = ? AND language = ?)`
+			)
+			.bind(movieId, language),
+	]);
+
+	return results[0].meta.last_row_id || 0;
 }
 
 /**
@@ -390,7 +510,7 @@ export async function upsertRoast(env: Env, movieId: number, roast: MovieRoast,
 export async function getActiveRoast(env: Env, movieId: number, language: string = 'en'): Promise<DBRoast | null> {
 	const result = await env.plotburn_db
 		.prepare(
-			`SELECT id, movie_id, roast_json, language, created_at, is_featured, is_active
+			`SELECT id, movie_id, roast_json, language, created_at, is_featured, is_active, regeneration_reason, regenerated_by
        FROM roasts
        WHERE movie_id = ? AND language = ? AND is_active = 1`
 		)
@@ -413,7 +533,7 @@ export async function getRoast(env: Env, movieId: number, language: string = 'en
 export async function getRoastHistory(env: Env, movieId: number, language: string = 'en'): Promise<DBRoast[]> {
 	const result = await env.plotburn_db
 		.prepare(
-			`SELECT id, movie_id, roast_json, language, created_at, is_featured, is_active
+			`SELECT id, movie_id, roast_json, language, created_at, is_featured, is_active, regeneration_reason, regenerated_by
        FROM roasts
        WHERE movie_id = ? AND language = ?
        ORDER BY created_at DESC`
@@ -424,6 +544,51 @@ export async function getRoastHistory(env: Env, movieId: number, language: strin
 	return result.results;
 }
 
+/**
+ * Get a single roast version by ID
+ */
+export async function getRoastById(env: Env, roastId: number): Promise<DBRoast | null> {
+	const result = await env.plotburn_db
+		.prepare(
+			`SELECT id, movie_id, roast_json, language, created_at, is_featured, is_active, regeneration_reason, regenerated_by
+       FROM roasts
+       WHERE id = ?`
+		)
+		.bind(roastId)
+		.first<DBRoast>();
+
+	return result || null;
+}
+
+/**
+ * Make a specific roast version the active one for its movie+language
+ * Runs as a single D1 batch (transaction) so uniq_active_roast is never violated
+ * and readers never see a movie without an active roast; it takes over the feature schedule
+ */
+export async function activateRoastVersion(env: Env, roast: DBRoast): Promise<void> {
+	await env.plotburn_db.batch([
+		// The feature schedule moves with the active version
+		env.plotburn_db
+			.prepare(
+				`UPDATE roasts
+         SET is_featured = active.is_featured, featured_starts_at = active.featured_starts_at,
+             featured_ends_at = active.featured_ends_at, featured_rank = active.featured_rank
+         FROM roasts active
+         WHERE roasts.id = ? AND active.movie_id = roasts.movie_id AND active.language = roasts.language
+           AND active.is_active = 1 AND active.id != roasts.id`
+			)
+			.bind(roast.id),
+		env.plotburn_db
+			.prepare(
+				`UPDATE roasts
+         SET is_active = 0
+         WHERE movie_id = ? AND language = ? AND is_active = 1 AND id != ?`
+			)
+			.bind(roast.movie_id, roast.language, roast.id),
+		env.plotburn_db.prepare(`UPDATE roasts SET is_active = 1 WHERE id = ?`).bind(roast.id),
+	]);
+}
+
 /**
  * Get all roasts with pagination
  */
@@ -440,7 +605,7 @@ export async function getAllRoasts(
 	// Get roasts
 	const roastsResult = await env.plotburn_db
 		.prepare(
-			`SELECT id, movie_id, roast_json, language, created_at, is_featured, is_active
+			`SELECT id, movie_id, roast_json, language, created_at, is_featured, is_active, regeneration_reason, regenerated_by
        FROM roasts
        WHERE is_active = 1
        ORDER BY created_at DESC
@@ -530,6 +695,547 @@ export async function toggleRoastFeatured(env: Env, roastId: number): Promise<vo
 		.run();
 }
 
+/**
+ * Feature a roast, optionally within a time window and at a carousel rank
+ * Re-featuring an already featured roast replaces its window and rank
+ */
+export async function setRoastFeatured(
+	env: Env,
+	roastId: number,
+	schedule: { startsAt: number | null; endsAt: number | null; rank: number | null }
+): Promise<void> {
+	await env.plotburn_db
+		.prepare(
+			`UPDATE roasts
+       SET is_featured = 1, featured_starts_at = ?, featured_ends_at = ?, featured_rank = ?
+       WHERE id = ?`
+		)
+		.bind(schedule.startsAt, schedule.endsAt, schedule.rank, roastId)
+		.run();
+}
+
+/**
+ * Remove a roast from the featured set and clear its schedule
+ */
+export async function unsetRoastFeatured(env: Env, roastId: number): Promise<void> {
+	await env.plotburn_db
+		.prepare(
+			`UPDATE roasts
+       SET is_featured = 0, featured_starts_at = NULL, featured_ends_at = NULL, featured_rank = NULL
+       WHERE id = ?`
+		)
+		.bind(roastId)
+		.run();
+}
+
+/**
+ * Get active roasts whose feature window contains the given time (with movie details)
+ * Ordered by rank (unranked last), then newest first
+ */
+export async function getFeaturedRoasts(
+	env: Env,
+	at: number,
+	limit: number = 20
+): Promise<Array<{ movie: DBMovie; roast: DBRoast & { featured_starts_at: number | null; featured_ends_at: number | null; featured_rank: number | null } }>> {
+	const result = await env.plotburn_db
+		.prepare(
+			`SELECT
+         r.id, r.movie_id, r.roast_json, r.language, r.created_at, r.is_featured, r.is_active,
+         r.featured_starts_at, r.featured_ends_at, r.featured_rank,
+         m.title, m.release_date, m.popularity, m.vote_average, m.vote_count, m.poster_path, m.language as movie_language, m.created_at as movie_created_at, m.updated_at
+       FROM roasts r
+       INNER JOIN movies m ON r.movie_id = m.id
+       WHERE r.is_featured = 1 AND r.is_active = 1
+         AND (r.featured_starts_at IS NULL OR r.featured_starts_at <= ?)
+         AND (r.featured_ends_at IS NULL OR r.featured_ends_at > ?)
+       ORDER BY r.featured_rank IS NULL, r.featured_rank ASC, r.created_at DESC
+       LIMIT ?`
+		)
+		.bind(at, at, limit)
+		.all<any>();
+
+	return result.results.map((row) => ({
+		movie: {
+			id: row.movie_id,
+			title: row.title,
+			release_date: row.release_date,
+			popularity: row.popularity,
+			vote_average: row.vote_average,
+			vote_count: row.vote_count,
+			poster_path: row.poster_path,
+			language: row.movie_language,
+			created_at: row.movie_created_at,
+			updated_at: row.updated_at,
+		},
+		roast: {
+			id: row.id,
+			movie_id: row.movie_id,
+			roast_json: row.roast_json,
+			language: row.language,
+			created_at: row.created_at,
+			is_featured: row.is_featured,
+			is_active: row.is_active,
+			featured_starts_at: row.featured_starts_at,
+			featured_ends_at: row.featured_ends_at,
+			featured_rank: row.featured_rank,
+		},
+	}));
+}
+
+/**
+ * Record a Claude roast output that failed validation
+ */
+export async function insertRoastValidationFailure(
+	env: Env,
+	failure: {
+		movieId: number;
+		language: string;
+		attempt: number;
+		violations: string[];
+		responseText: string;
+		correlationId: string;
+	}
+): Promise<void> {
+	const now = Math.floor(Date.now() / 1000);
+
+	await env.plotburn_db
+		.prepare(
+			`INSERT INTO roast_validation_failures (movie_id, language, attempt, violations_json, response_text, correlation_id, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+		)
+		.bind(
+			failure.movieId,
+			failure.language,
+			failure.attempt,
+			JSON.stringify(failure.violations),
+			failure.responseText,
+			failure.correlationId,
+			now
+		)
+		.run();
+}
+
+// ============= COST LEDGER OPERATIONS =============
+
+/**
+ * Record the cost of one external API call
+ */
+export async function insertApiCost(
+	env: Env,
+	entry: {
+		provider: ApiProvider;
+		model: string;
+		operation: string;
+		movieId: number | null;
+		correlationId: string | null;
+		usage: ApiUsage;
+		costUsd: number;
+		costInr: number;
+	}
+): Promise<void> {
+	const now = Math.floor(Date.now() / 1000);
+
+	await env.plotburn_db
+		.prepare(
+			`INSERT INTO api_costs (provider, model, operation, movie_id, correlation_id, input_tokens, output_tokens, cache_write_tokens, cache_read_tokens, request_count, cost_usd, cost_inr, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+		)
+		.bind(
+			entry.provider,
+			entry.model,
+			entry.operation,
+			entry.movieId,
+			entry.correlationId,
+			entry.usage.input_tokens || 0,
+			entry.usage.output_tokens || 0,
+			entry.usage.cache_write_tokens || 0,
+			entry.usage.cache_read_tokens || 0,
+			entry.usage.requests ?? 1,
+			entry.costUsd,
+			entry.costInr,
+			now
+		)
+		.run();
+}
+
+/**
+ * Aggregate ledger rows in [from, to) (unix seconds), grouped by movie, provider or UTC day
+ */
+export async function getCostReport(env: Env, from: number, to: number, groupBy: CostGroupBy): Promise<CostReportRow[]> {
+	const keyExpr = {
+		movie: "COALESCE(CAST(c.movie_id AS TEXT), 'none')",
+		provider: 'c.provider',
+		day: "date(c.created_at, 'unixepoch')",
+	}[groupBy];
+
+	const result = await env.plotburn_db
+		.prepare(
+			`SELECT
+         ${keyExpr} AS key,
+         ${groupBy === 'movie' ? 'MAX(m.title)' : 'NULL'} AS movie_title,
+         COUNT(*) AS calls,
+         SUM(c.input_tokens) AS input_tokens,
+         SUM(c.output_tokens) AS output_tokens,
+         SUM(c.cache_write_tokens) AS cache_write_tokens,
+         SUM(c.cache_read_tokens) AS cache_read_tokens,
+         SUM(c.cost_usd) AS cost_usd,
+         SUM(c.cost_inr) AS cost_inr
+       FROM api_costs c
+       LEFT JOIN movies m ON m.id = c.movie_id
+       WHERE c.created_at >= ? AND c.created_at < ?
+       GROUP BY key
+       ORDER BY ${groupBy === 'day' ? 'key ASC' : 'cost_usd DESC'}`
+		)
+		.bind(from, to)
+		.all<CostReportRow>();
+
+	return result.results;
+}
+
+/**
+ * Sum ledger spend per provider since the start of the day and of the month (unix seconds)
+ */
+export async function getProviderSpend(
+	env: Env,
+	dayStart: number,
+	monthStart: number,
+	provider?: ApiProvider
+): Promise<Array<{ provider: ApiProvider; daily_usd: number; monthly_usd: number }>> {
+	const result = await env.plotburn_db
+		.prepare(
+			`SELECT
+         provider,
+         SUM(CASE WHEN created_at >= ? THEN cost_usd ELSE 0 END) AS daily_usd,
+         SUM(cost_usd) AS monthly_usd
+       FROM api_costs
+       WHERE created_at >= ? AND (? IS NULL OR provider = ?)
+       GROUP BY provider`
+		)
+		.bind(dayStart, monthStart, provider ?? null, provider ?? null)
+		.all<{ provider: ApiProvider; daily_usd: number; monthly_usd: number }>();
+
+	return result.results;
+}
+
+// ============= API KEY OPERATIONS =============
+
+const API_KEY_COLUMNS = 'id, name, key_hash, key_prefix, scopes, created_at, revoked_at, last_used_at, expires_at, rotated_from';
+
+/**
+ * Get a usable (not revoked, not expired) API key by the hash of its secret
+ */
+export async function getActiveApiKeyByHash(env: Env, keyHash: string): Promise<DBApiKey | null> {
+	const now = Math.floor(Date.now() / 1000);
+
+	const result = await env.plotburn_db
+		.prepare(
+			`SELECT ${API_KEY_COLUMNS}
+       FROM api_keys
+       WHERE key_hash = ? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)`
+		)
+		.bind(keyHash, now)
+		.first<DBApiKey>();
+
+	return result || null;
+}
+
+/**
+ * Get an API key by ID (including revoked/expired keys)
+ */
+export async function getApiKeyById(env: Env, keyId: number): Promise<DBApiKey | null> {
+	const result = await env.plotburn_db.prepare(`SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE id = ?`).bind(keyId).first<DBApiKey>();
+
+	return result || null;
+}
+
+/**
+ * List all API keys, newest first
+ */
+export async function getApiKeys(env: Env): Promise<DBApiKey[]> {
+	const result = await env.plotburn_db.prepare(`SELECT ${API_KEY_COLUMNS} FROM api_keys ORDER BY created_at DESC, id DESC`).all<DBApiKey>();
+
+	return result.results;
+}
+
+/**
+ * Store a new API key (hash only), returns its ID
+ */
+export async function insertApiKey(
+	env: Env,
+	key: { name: string; keyHash: string; keyPrefix: string; scopes: string[]; expiresAt: number | null }
+): Promise<number> {
+	const now = Math.floor(Date.now() / 1000);
+
+	const result = await env.plotburn_db
+		.prepare(
+			`INSERT INTO api_keys (name, key_hash, key_prefix, scopes, created_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+		)
+		.bind(key.name, key.keyHash, key.keyPrefix, key.scopes.join(','), now, key.expiresAt)
+		.run();
+
+	return result.meta.last_row_id || 0;
+}
+
+/**
+ * Replace a key with a new secret (same name, scopes and expiry) in one batch
+ * The old key stays valid until oldExpiresAt so clients can migrate
+ */
+export async function rotateApiKey(
+	env: Env,
+	oldKey: DBApiKey,
+	newKey: { keyHash: string; keyPrefix: string },
+	oldExpiresAt: number
+): Promise<number> {
+	const now = Math.floor(Date.now() / 1000);
+
+	const results = await env.plotburn_db.batch([
+		env.plotburn_db
+			.prepare(
+				`INSERT INTO api_keys (name, key_hash, key_prefix, scopes, created_at, expires_at, rotated_from)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+			)
+			.bind(oldKey.name, newKey.keyHash, newKey.keyPrefix, oldKey.scopes, now, oldKey.expires_at, oldKey.id),
+		// Never extend an earlier expiry
+		env.plotburn_db
+			.prepare(`UPDATE api_keys SET expires_at = MIN(COALESCE(expires_at, ?), ?) WHERE id = ?`)
+			.bind(oldExpiresAt, oldExpiresAt, oldKey.id),
+	]);
+
+	return results[0].meta.last_row_id || 0;
+}
+
+/**
+ * Revoke an API key immediately
+ */
+export async function revokeApiKey(env: Env, keyId: number): Promise<void> {
+	const now = Math.floor(Date.now() / 1000);
+
+	await env.plotburn_db.prepare(`UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL`).bind(now, keyId).run();
+}
+
+/**
+ * Record that a key was used
+ */
+export async function touchApiKey(env: Env, keyId: number): Promise<void> {
+	const now = Math.floor(Date.now() / 1000);
+
+	await env.plotburn_db.prepare(`UPDATE api_keys SET last_used_at = ? WHERE id = ?`).bind(now, keyId).run();
+}
+
+// ============= GENERATION JOB OPERATIONS =============
+
+const GENERATION_JOB_COLUMNS =
+	'id, type, movie_id, title, language, status, cron_run_id, correlation_id, attempts, created_at, started_at, finished_at, last_error';
+
+export interface NewGenerationJob {
+	type: GenerationJobType;
+	movieId: number;
+	title: string;
+	language: string;
+	correlationId: string;
+	cronRunId?: number | null;
+}
+
+/**
+ * Create queued generation jobs in one batch, returns their IDs in input order
+ */
+export async function insertGenerationJobs(env: Env, jobs: NewGenerationJob[]): Promise<number[]> {
+	if (jobs.length === 0) return [];
+	const now = Math.floor(Date.now() / 1000);
+
+	const results = await env.plotburn_db.batch(
+		jobs.map((job) =>
+			env.plotburn_db
+				.prepare(
+					`INSERT INTO generation_jobs (type, movie_id, title, language, status, cron_run_id, correlation_id, created_at)
+       VALUES (?, ?, ?, ?, 'queued', ?, ?, ?)`
+				)
+				.bind(job.type, job.movieId, job.title, job.language, job.cronRunId ?? null, job.correlationId, now)
+		)
+	);
+
+	return results.map((result) => result.meta.last_row_id || 0);
+}
+
+/**
+ * Get a generation job by ID
+ */
+export async function getGenerationJob(env: Env, jobId: number): Promise<DBGenerationJob | null> {
+	const result = await env.plotburn_db
+		.prepare(`SELECT ${GENERATION_JOB_COLUMNS} FROM generation_jobs WHERE id = ?`)
+		.bind(jobId)
+		.first<DBGenerationJob>();
+
+	return result || null;
+}
+
+/**
+ * Latest queued or running job for the same work, so repeated misses share one job
+ */
+export async function getOpenGenerationJob(
+	env: Env,
+	type: GenerationJobType,
+	movieId: number,
+	language: string
+): Promise<DBGenerationJob | null> {
+	const result = await env.plotburn_db
+		.prepare(
+			`SELECT ${GENERATION_JOB_COLUMNS}
+       FROM generation_jobs
+       WHERE type = ? AND movie_id = ? AND language = ? AND status IN ('queued', 'running')
+       ORDER BY id DESC
+       LIMIT 1`
+		)
+		.bind(type, movieId, language)
+		.first<DBGenerationJob>();
+
+	return result || null;
+}
+
+/**
+ * Jobs queued by a cron run, in queue order
+ */
+export async function getGenerationJobsByCronRun(env: Env, cronRunId: number): Promise<DBGenerationJob[]> {
+	const result = await env.plotburn_db
+		.prepare(`SELECT ${GENERATION_JOB_COLUMNS} FROM generation_jobs WHERE cron_run_id = ? ORDER BY id`)
+		.bind(cronRunId)
+		.all<DBGenerationJob>();
+
+	return result.results;
+}
+
+/**
+ * Move a job to a new status
+ * Each move to running counts an attempt and sets started_at; finished_at is set on a final status
+ * An error is kept as last_error until a later one replaces it
+ */
+export async function updateGenerationJobStatus(
+	env: Env,
+	jobId: number,
+	status: GenerationJobStatus,
+	error: string | null = null
+): Promise<void> {
+	const now = Math.floor(Date.now() / 1000);
+	const running = status === 'running' ? 1 : 0;
+	const finishedAt = status === 'succeeded' || status === 'skipped' || status === 'dead_lettered' ? now : null;
+
+	await env.plotburn_db
+		.prepare(
+			`UPDATE generation_jobs
+       SET status = ?, attempts = attempts + ?, started_at = CASE WHEN ? = 1 THEN ? ELSE started_at END,
+           finished_at = ?, last_error = COALESCE(?, last_error)
+       WHERE id = ?`
+		)
+		.bind(status, running, running, now, finishedAt, error, jobId)
+		.run();
+}
+
+/**
+ * Put jobs back to queued with a fresh attempt count in one batch (dead letter replay)
+ * @returns the jobs as they were before, for restoreGenerationJobs if the replay fails
+ */
+export async function requeueGenerationJobs(env: Env, jobIds: number[]): Promise<DBGenerationJob[]> {
+	if (jobIds.length === 0) return [];
+
+	const results = await env.plotburn_db.batch<DBGenerationJob>(
+		jobIds.flatMap((jobId) => [
+			env.plotburn_db.prepare(`SELECT ${GENERATION_JOB_COLUMNS} FROM generation_jobs WHERE id = ?`).bind(jobId),
+			env.plotburn_db
+				.prepare(`UPDATE generation_jobs SET status = 'queued', attempts = 0, finished_at = NULL WHERE id = ?`)
+				.bind(jobId),
+		])
+	);
+
+	return results.filter((_, index) => index % 2 === 0).flatMap((result) => result.results);
+}
+
+/**
+ * Put jobs back the way requeueGenerationJobs found them (status, attempts and finished_at)
+ */
+export async function restoreGenerationJobs(env: Env, jobs: DBGenerationJob[]): Promise<void> {
+	if (jobs.length === 0) return;
+
+	await env.plotburn_db.batch(
+		jobs.map((job) =>
+			env.plotburn_db
+				.prepare(`UPDATE generation_jobs SET status = ?, attempts = ?, finished_at = ? WHERE id = ?`)
+				.bind(job.status, job.attempts, job.finished_at, job.id)
+		)
+	);
+}
+
+// ============= DEAD LETTER OPERATIONS =============
+
+/**
+ * Record a message that landed in the dead letter queue
+ */
+export async function insertDeadLetter(
+	env: Env,
+	message: MovieQueueMessage,
+	failure: { attempts: number; lastError: string | null }
+): Promise<number> {
+	const now = Math.floor(Date.now() / 1000);
+
+	const result = await env.plotburn_db
+		.prepare(
+			`INSERT INTO dead_letters (job_id, type, movie_id, title, language, correlation_id, message_json, attempts, last_error, status, received_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?)`
+		)
+		.bind(
+			message.jobId ?? null,
+			message.type || 'roast',
+			message.movieId,
+			message.title,
+			message.language || 'en',
+			message.correlationId,
+			JSON.stringify(message),
+			failure.attempts,
+			failure.lastError,
+			now
+		)
+		.run();
+
+	return result.meta.last_row_id || 0;
+}
+
+/**
+ * Get a dead letter by ID
+ */
+export async function getDeadLetterById(env: Env, deadLetterId: number): Promise<DBDeadLetter | null> {
+	const result = await env.plotburn_db.prepare(`SELECT * FROM dead_letters WHERE id = ?`).bind(deadLetterId).first<DBDeadLetter>();
+
+	return result || null;
+}
+
+/**
+ * List dead letters, oldest first (status = null for all)
+ */
+export async function getDeadLetters(env: Env, status: DeadLetterStatus | null, limit: number): Promise<DBDeadLetter[]> {
+	const result = status
+		? await env.plotburn_db
+				.prepare(`SELECT * FROM dead_letters WHERE status = ? ORDER BY received_at, id LIMIT ?`)
+				.bind(status, limit)
+				.all<DBDeadLetter>()
+		: await env.plotburn_db.prepare(`SELECT * FROM dead_letters ORDER BY received_at, id LIMIT ?`).bind(limit).all<DBDeadLetter>();
+
+	return result.results;
+}
+
+/**
+ * Resolve pending dead letters as replayed or ignored
+ */
+export async function resolveDeadLetters(env: Env, deadLetterIds: number[], status: Exclude<DeadLetterStatus, 'pending'>): Promise<void> {
+	if (deadLetterIds.length === 0) return;
+	const now = Math.floor(Date.now() / 1000);
+
+	await env.plotburn_db.batch(
+		deadLetterIds.map((id) =>
+			env.plotburn_db.prepare(`UPDATE dead_letters SET status = ?, resolved_at = ? WHERE id = ? AND status = 'pending'`).bind(status, now, id)
+		)
+	);
+}
+
 // ============= STREAMING PROVIDER OPERATIONS =============
 
 /**
@@ -642,14 +1348,18 @@ export async function getExtractionsWithMovies(
 /**
  * Get movies with their active roast and latest extraction (for All feed)
  * Filtered by category (default 'now_playing')
+ * Uses keyset pagination on (position, id): a refresh rewrites positions in place,
+ * so a cursor from before it continues at the same rank instead of running dry
  */
 export async function getMoviesWithRoastAndTruth(
 	env: Env,
 	category: string = 'now_playing',
 	limit: number = 20,
-	offset: number = 0
+	cursor: FeedCursor | null = null,
+	language: string = 'en'
 ): Promise<{
 	results: Array<DBMovie & {
+		position: number;
 		roast: DBRoast | null;
 		truth: DBExtraction | null;
 	}>;
@@ -663,28 +1373,43 @@ export async function getMoviesWithRoastAndTruth(
 
 	const total = countResult?.count || 0;
 
-	// Complex query to get movie + active roast + latest extraction
-	// Using derived table for latest extraction (more efficient than correlated subquery)
+	// One row per movie: the roast and extraction are each picked by a correlated subquery
+	// (newest id wins ties, e.g. two extractions fetched in the same second)
+	// Rows from before the position column all have position 0, so id breaks ties
 	const result = await env.plotburn_db
 		.prepare(
 			`SELECT
-         m.*,
+         m.*, mc.position,
          r.id as roast_id, r.roast_json, r.language as roast_language, r.created_at as roast_created_at, r.is_featured, r.is_active,
          e.id as truth_id, e.source as truth_source, e.model as truth_model, e.fetched_at as truth_fetched_at, e.content_json as truth_content_json
        FROM movies m
        INNER JOIN movie_categories mc ON m.id = mc.movie_id
-       LEFT JOIN roasts r ON m.id = r.movie_id AND r.is_active = 1
-       LEFT JOIN (
-           SELECT movie_id, MAX(fetched_at) as max_fetched_at
-           FROM extractions
-           GROUP BY movie_id
-       ) latest_e ON m.id = latest_e.movie_id
-       LEFT JOIN extractions e ON m.id = e.movie_id AND e.fetched_at = latest_e.max_fetched_at
+       LEFT JOIN roasts r ON r.id = (
+           SELECT id FROM roasts
+           WHERE movie_id = m.id AND language = ? AND is_active = 1
+           ORDER BY id DESC
+           LIMIT 1
+       )
+       LEFT JOIN extractions e ON e.id = (
+           SELECT id FROM extractions
+           WHERE movie_id = m.id
+           ORDER BY fetched_at DESC, id DESC
+           LIMIT 1
+       )
        WHERE mc.category = ?
-       ORDER BY mc.added_at DESC
-       LIMIT ? OFFSET ?`
+         AND (? IS NULL OR mc.position > ? OR (mc.position = ? AND m.id > ?))
+       ORDER BY mc.position, m.id
+       LIMIT ?`
+		)
+		.bind(
+			language,
+			category,
+			cursor?.position ?? null,
+			cursor?.position ?? null,
+			cursor?.position ?? null,
+			cursor?.id ?? null,
+			limit
 		)
-		.bind(category, limit, offset)
 		.all<any>();
 
 	const results = result.results.map((row) => {
@@ -728,6 +1453,7 @@ export async function getMoviesWithRoastAndTruth(
 
 		return {
 			...movie,
+			position: row.position,
 			roast,
 			truth,
 		};
@@ -735,4 +1461,3 @@ export async function getMoviesWithRoastAndTruth(
 
 	return { results, total };
 }
-
@@ -0,0 +1,194 @@
+import type { Env, LogPurgeResult, LogListFilters, LogListResponse, LogSummary } from '../types';
+import type { TraceDocument } from '../utils/tracing';
+import { DEFAULT_LOG_RETENTION_DAYS, MAX_LOG_PURGE_OBJECTS, MAX_LOG_SCAN_OBJECTS } from '../constants';
+
+// Trace.flush writes one document per correlation id under logs/YYYY-MM-DD/
+const LOG_PREFIX = 'logs/';
+
+// R2 returns at most 1000 keys per list call and deletes at most 1000 keys per call
+const R2_BATCH_SIZE = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getLogRetentionDays(env: Env): number {
+	const days = Number(env.LOG_RETENTION_DAYS);
+	return Number.isInteger(days) && days > 0 ? days : DEFAULT_LOG_RETENTION_DAYS;
+}
+
+/**
+ * Day prefixes (logs/YYYY-MM-DD/) older than the cutoff date, oldest first
+ */
+async function listExpiredDays(env: Env, cutoffDate: string): Promise<string[]> {
+	const days: string[] = [];
+	let cursor: string | undefined;
+
+	do {
+		const listing = await env.R2.list({ prefix: LOG_PREFIX, delimiter: '/', cursor });
+		for (const prefix of listing.delimitedPrefixes) {
+			const date = prefix.slice(LOG_PREFIX.length, -1);
+			if (/^\d{4}-\d{2}-\d{2}$/.test(date) && date < cutoffDate) {
+				days.push(prefix);
+			}
+		}
+		cursor = listing.truncated ? listing.cursor : undefined;
+	} while (cursor);
+
+	return days.sort();
+}
+
+/**
+ * Deletes R2 log objects older than LOG_RETENTION_DAYS, day by day in batches of 1000 keys
+ * Stops after MAX_LOG_PURGE_OBJECTS objects (truncated: true); the next run picks up the rest
+ * @param dryRun - Only count what would be deleted
+ * @param onBatch - Called after each batch, e.g. to renew a cron lock lease
+ */
+export async function purgeExpiredLogs(env: Env, dryRun: boolean, onBatch?: () => Promise<void>): Promise<LogPurgeResult> {
+	const retentionDays = getLogRetentionDays(env);
+	const cutoffDate = new Date(Date.now() - retentionDays * DAY_MS).toISOString().split('T')[0];
+	const days = await listExpiredDays(env, cutoffDate);
+
+	let objects = 0;
+	let bytes = 0;
+	let truncated = false;
+
+	for (const day of days) {
+		let cursor: string | undefined;
+		do {
+			if (objects >= MAX_LOG_PURGE_OBJECTS) {
+				truncated = true;
+				break;
+			}
+
+			// Deleted keys are gone from the next listing, so a real purge always lists from the start
+			const limit = Math.min(R2_BATCH_SIZE, MAX_LOG_PURGE_OBJECTS - objects);
+			const listing = await env.R2.list({ prefix: day, limit, cursor: dryRun ? cursor : undefined });
+			if (listing.objects.length === 0) break;
+
+			if (!dryRun) {
+				await env.R2.delete(listing.objects.map((object) => object.key));
+			}
+			objects += listing.objects.length;
+			bytes += listing.objects.reduce((total, object) => total + object.size, 0);
+			if (onBatch) await onBatch();
+
+			cursor = listing.truncated ? listing.cursor : undefined;
+		} while (cursor);
+
+		if (truncated) break;
+	}
+
+	console.log(`[LOG_PURGE] ${dryRun ? 'Would delete' : 'Deleted'} ${objects} objects (${bytes} bytes) from ${days.length} days before ${cutoffDate}`);
+
+	return { dry_run: dryRun, retention_days: retentionDays, cutoff_date: cutoffDate, days, objects, bytes, truncated };
+}
+
+function toLogSummary(object: R2Object): LogSummary {
+	const metadata = object.customMetadata || {};
+	return {
+		correlation_id: metadata.correlationId || object.key.split('/').pop()!.replace(/\.json$/, ''),
+		key: object.key,
+		endpoint: metadata.endpoint || 'unknown',
+		method: metadata.method || 'unknown',
+		status: metadata.status || 'unknown',
+		span_count: parseInt(metadata.spanCount || '0'),
+		entry_count: parseInt(metadata.entryCount || '0'),
+		movie_id: metadata.movieId || null,
+		size: object.size,
+		uploaded_at: object.uploaded.toISOString(),
+	};
+}
+
+function matchesFilters(log: LogSummary, filters: LogListFilters): boolean {
+	if (filters.endpoint && !log.endpoint.startsWith(filters.endpoint)) return false;
+	if (filters.status) {
+		const statusClass = filters.status.match(/^([1-5])xx$/i)?.[1];
+		if (statusClass ? !log.status.startsWith(statusClass) : log.status !== filters.status) return false;
+	}
+	if (filters.movieId) {
+		// Logs written before movieId was stored in the metadata still match on their endpoint
+		const endpointMovieId = log.endpoint.match(/^\/movie\/(\d+)/)?.[1];
+		if (log.movie_id !== filters.movieId && endpointMovieId !== filters.movieId) return false;
+	}
+	return true;
+}
+
+/**
+ * Lists one day's log objects matching the filters, using R2 custom metadata only
+ * Scans at most MAX_LOG_SCAN_OBJECTS keys per call; the returned cursor continues where it stopped
+ */
+export async function listLogs(env: Env, filters: LogListFilters): Promise<LogListResponse> {
+	const logs: LogSummary[] = [];
+	let startAfter = filters.cursor;
+	let scanned = 0;
+	let nextCursor: string | null = null;
+
+	scan: while (true) {
+		const listing = await env.R2.list({
+			prefix: `${LOG_PREFIX}${filters.date}/`,
+			startAfter,
+			limit: R2_BATCH_SIZE,
+			include: ['customMetadata'],
+		});
+
+		for (const [index, object] of listing.objects.entries()) {
+			const log = toLogSummary(object);
+			if (matchesFilters(log, filters)) {
+				logs.push(log);
+			}
+			if (logs.length >= filters.limit) {
+				const more = listing.truncated || index < listing.objects.length - 1;
+				nextCursor = more ? object.key : null;
+				break scan;
+			}
+		}
+
+		scanned += listing.objects.length;
+		if (!listing.truncated || listing.objects.length === 0) break;
+
+		startAfter = listing.objects[listing.objects.length - 1].key;
+		if (scanned >= MAX_LOG_SCAN_OBJECTS) {
+			nextCursor = startAfter;
+			break;
+		}
+	}
+
+	return { date: filters.date, count: logs.length, logs, cursor: nextCursor };
+}
+
+/**
+ * Days (YYYY-MM-DD) a log for this correlation id can be stored under, newest first
+ * Logs are keyed by the day they were flushed, which for cron runs and queue messages (retries,
+ * budget deferrals, dead letter replays) can be days after the id was created. Ids that embed
+ * their creation time (request, cron-, manual-trigger- and queue -m/-t ids) are searched from
+ * today back to that day; other ids across the whole retention window
+ */
+function candidateLogDates(env: Env, correlationId: string): string[] {
+	const now = Date.now();
+	const windowStart = now - getLogRetentionDays(env) * DAY_MS;
+
+	const createdAt = Number(correlationId.match(/(?:^|-)(\d{13})(?=-|$)/)?.[1]);
+	const from = createdAt >= windowStart && createdAt <= now ? createdAt : windowStart;
+
+	const dates: string[] = [];
+	const oldest = new Date(from).toISOString().split('T')[0];
+	for (let time = now; ; time -= DAY_MS) {
+		const date = new Date(time).toISOString().split('T')[0];
+		dates.push(date);
+		if (date <= oldest) break;
+	}
+	return dates;
+}
+
+/**
+ * Fetches the trace document for a correlation id, searching across days
+ * @returns null when no log is stored for it within the retention window
+ */
+export async function findLog(env: Env, correlationId: string): Promise<TraceDocument | null> {
+	for (const date of candidateLogDates(env, correlationId)) {
+		const object = await env.R2.get(`${LOG_PREFIX}${date}/${correlationId}.json`);
+		if (object) {
+			return object.json<TraceDocument>();
+		}
+	}
+	return null;
+}
@@ -1,3 +1,6 @@
+import type { RateLimiter } from './utils/rateLimiterObject';
+import type { Span } from './utils/tracing';
+
 // ---------------- ENVIRONMENT ----------------
 
 export interface Env {
@@ -11,7 +14,86 @@ export interface Env {
 	RECENT_ROAST_KV: KVNamespace;
 	MOVIE_QUEUE: Queue<MovieQueueMessage>;
 	KV_VERSION: string;
-	LOG_RETENTION_DAYS: number;
+	LOG_RETENTION_DAYS: number; // Days of R2 logs (logs/YYYY-MM-DD/) kept by the purge_logs job
+	ROAST_LANGUAGES: string; // Comma-separated ISO 639-1 codes roasts may be generated in
+	TRUTH_REFRESH_DAYS: string; // Comma-separated days after release at which truths are re-researched
+	PRICE_TABLE?: string; // Optional JSON overriding DEFAULT_API_PRICES per model
+	PUBLIC_ROUTES?: string; // Comma-separated route paths (e.g. "/movie/:id,/feed") readable without an API key
+	URL_SIGNING_SECRET?: string; // HMAC secret for signed expiring URLs
+	RATE_LIMITER?: string; // 'kv' (default) or 'durable_object'
+	RATE_LIMITER_DO: DurableObjectNamespace<RateLimiter>;
+	RATE_LIMITS?: string; // Optional JSON overriding DEFAULT_RATE_LIMITS per route class and per API key name
+	SPEND_BUDGETS?: string; // Optional JSON of USD budgets per provider, e.g. {"claude":{"daily_usd":5,"monthly_usd":100}}
+	CRON_LOCK_TIMEOUT_MINUTES?: string; // Minutes without a heartbeat before an active cron run is reaped as abandoned
+}
+
+// ---------------- AUTH TYPES ----------------
+
+export type ApiScope = 'read' | 'generate' | 'admin' | 'cron';
+
+// Who is calling: a D1 api_keys row, the legacy API_SECRET_KEY (id null, every scope),
+// or a keyless caller on a public route / signed URL ('anonymous' / 'signed-url', read only)
+export interface ApiPrincipal {
+	id: number | null;
+	name: string;
+	scopes: ApiScope[];
+	lastUsedAt: number | null;
+	readOnly: boolean; // Never triggers generation, only cached content is served
+}
+
+export type ApiKeyStatus = 'active' | 'expiring' | 'expired' | 'revoked';
+
+export interface ApiKeyInfo {
+	id: number;
+	name: string;
+	key_prefix: string;
+	scopes: ApiScope[];
+	status: ApiKeyStatus; // 'expiring' = still valid but rotated or given an expiry
+	created_at: string;
+	expires_at: string | null;
+	revoked_at: string | null;
+	last_used_at: string | null;
+	rotated_from: number | null;
+}
+
+export interface CreateApiKeyRequest {
+	name: string;
+	scopes: ApiScope[];
+	expires_at?: string; // ISO 8601, omitted = never
+}
+
+export interface RotateApiKeyRequest {
+	grace_hours?: number; // How long the old key keeps working (default 24)
+}
+
+// The plaintext key is only ever returned in this response
+export interface ApiKeySecretResponse {
+	key: string;
+	api_key: ApiKeyInfo;
+	previous?: ApiKeyInfo; // Rotation only: the old key and its new expiry
+}
+
+// ---------------- RATE LIMIT TYPES ----------------
+
+export type RateLimitClass = 'read' | 'generate' | 'admin';
+
+export interface RateLimitPolicy {
+	limit: number; // Requests allowed per window
+	window_seconds: number;
+}
+
+// Shape of the RATE_LIMITS env var; "keys" overrides classes for specific API key names
+export interface RateLimitConfig {
+	classes?: Partial<Record<RateLimitClass, RateLimitPolicy>>;
+	keys?: Record<string, Partial<Record<RateLimitClass, RateLimitPolicy>>>;
+}
+
+export interface RateLimitResult {
+	allowed: boolean;
+	limit: number;
+	remaining: number;
+	reset_seconds: number; // Until the current window ends
+	retry_after_seconds: number; // 0 when allowed
 }
 
 // ---------------- TMDB TYPES ----------------
@@ -128,6 +210,16 @@ export type StreamingProviderDB = {
 
 // ---------------- MOVIE TRUTH STORAGE ----------------
 
+export interface ExtractionCompleteness {
+	score: number; // 0-1, mean of section scores
+	sections: Record<string, number>; // 0-1 share of filled fields per top-level section
+	counts: {
+		ratings: number;
+		quotes: number;
+		comparisons: number;
+	};
+}
+
 export type MovieTruth = {
 	source: string;
 	fetchedAt: string;
@@ -135,6 +227,7 @@ export type MovieTruth = {
 	costEstimateINR: number;
 	citations: string[];
 	content: string;
+	completeness: ExtractionCompleteness | null;
 	usage: {
 		prompt_tokens: number;
 		completion_tokens: number;
@@ -144,6 +237,47 @@ export type MovieTruth = {
 	};
 };
 
+export interface ExtractionHistoryEntry {
+	id: number;
+	source: string;
+	model: string;
+	fetched_at: string;
+	usage: {
+		prompt_tokens: number;
+		completion_tokens: number;
+		total_tokens: number;
+		total_cost: number;
+	};
+	citation_count: number;
+	completeness_score: number | null;
+}
+
+export interface TruthHistoryResponse {
+	movie_id: number;
+	extractions: ExtractionHistoryEntry[]; // Newest first
+}
+
+export interface TruthFieldChange {
+	from: string;
+	to: string;
+	changed: boolean;
+}
+
+export interface TruthDiffResponse {
+	movie_id: number;
+	from: { id: number; fetched_at: string };
+	to: { id: number; fetched_at: string };
+	reception: Record<string, TruthFieldChange>;
+	ratings: {
+		added: { source: string; criticName: string; rating: string }[];
+		removed: { source: string; criticName: string; rating: string }[];
+		changed: { source: string; criticName: string; from: string; to: string }[];
+	};
+	quotes: {
+		added: { source: string; quote: string }[];
+		removed: { source: string; quote: string }[];
+	};
+}
 
 // ---------------- MOVIE METADATA ----------------
 
@@ -242,6 +376,115 @@ export interface MovieRoastResponse {
 	truth_fetched_at: string;
 }
 
+export interface RoastVersion {
+	id: number;
+	language: string;
+	created_at: string;
+	is_active: boolean;
+	is_featured: boolean;
+	regeneration_reason: string | null;
+	regenerated_by: string | null;
+	roast: MovieRoast | null;
+}
+
+export interface RoastHistoryResponse {
+	movie_id: number;
+	language: string;
+	active_roast_id: number | null;
+	versions: RoastVersion[];
+}
+
+export interface RegenerateRoastRequest {
+	reason: string;
+	language?: string;
+	refresh_truth?: boolean;
+	requested_by?: string;
+}
+
+export interface RoastFieldDiff {
+	old: unknown;
+	new: unknown;
+	changed: boolean;
+}
+
+export interface RegenerateRoastResponse {
+	movie_id: number;
+	language: string;
+	reason: string;
+	requested_by: string;
+	truth_refreshed: boolean;
+	truth_fetched_at: string;
+	old: { roast_id: number; created_at: string; roast: MovieRoast } | null;
+	new: { roast_id: number; created_at: string; roast: MovieRoast };
+	changed_fields: (keyof MovieRoast)[];
+	diff: Record<keyof MovieRoast, RoastFieldDiff>;
+}
+
+// ---------------- FEATURED TYPES ----------------
+
+export interface FeatureRoastRequest {
+	starts_at?: string | null;
+	ends_at?: string | null;
+	rank?: number | null;
+}
+
+export interface FeaturedRoast {
+	roast_id: number;
+	language: string;
+	rank: number | null;
+	starts_at: string | null;
+	ends_at: string | null;
+	roast: MovieRoast | null;
+	movie: {
+		id: number;
+		title: string;
+		release_date: string | null;
+		rating: number | null;
+		votes: number | null;
+		poster_url: string | null;
+	};
+}
+
+export interface FeaturedResponse {
+	generated_at: string;
+	roasts: FeaturedRoast[];
+}
+
+// ---------------- FEED RESPONSE TYPES ----------------
+
+export type FeedCategory = 'now_playing' | 'popular';
+
+export interface FeedTruthSummary {
+	source: string;
+	model: string;
+	fetched_at: string;
+	summary: string | null;
+	critical_consensus: string | null;
+	audience_sentiment: string | null;
+}
+
+export interface FeedMovieCard {
+	id: number;
+	title: string;
+	release_date: string | null;
+	rating: number | null;
+	votes: number | null;
+	popularity: number | null;
+	poster_url: string | null;
+	has_roast: boolean;
+	roast: MovieRoast | null;
+	roast_generated_at: string | null;
+	truth: FeedTruthSummary | null;
+}
+
+export interface FeedResponse {
+	category: FeedCategory;
+	total: number;
+	limit: number;
+	next_cursor: string | null;
+	movies: FeedMovieCard[];
+}
+
 // ---------------- CRON TYPES ----------------
 
 export interface CronResult {
@@ -250,28 +493,51 @@ export interface CronResult {
 	correlation_id: string;
 	movies_fetched?: number;
 	movies_queued?: number;
+	summary?: Record<string, number>; // Job-specific counts, also stored in cron_runs.summary_json
 	duration_ms?: number;
 	status: 'in_progress' | 'success' | 'partial' | 'failed' | 'skipped';
 	error?: string;
 }
 
+export type CronJobName = 'movie_roast' | 'truth_refresh' | 'ingest_now_playing' | 'ingest_popular' | 'refresh_providers' | 'purge_logs';
+
+// A named job in the cron registry; its runs are tracked under the name in cron_runs
+export interface CronJobDefinition {
+	name: CronJobName;
+	schedule: string; // Cron expression, must also be listed in wrangler.toml [triggers]
+	description: string;
+	run: (env: Env, parent: Span) => Promise<CronResult>; // Runs in a child span of parent, under its correlation id
+}
+
 export interface MovieQueueMessage {
 	movieId: number;
 	title: string;
 	correlationId: string;
+	type?: GenerationJobType; // Defaults to 'roast' for messages queued before this field existed
+	language?: string; // Roast language, defaults to 'en'
+	jobId?: number; // generation_jobs row to update
+	cronRunId?: number; // cron_runs row to report back to
 }
 
+export type CronRunStatus = 'dispatching' | 'running' | 'success' | 'partial' | 'failed' | 'abandoned';
+
 export interface CronHistoryEntry {
 	id: number;
 	job_name: string;
 	started_at: number;
 	finished_at: number | null;
 	duration_ms: number | null;
-	status: string;
+	status: CronRunStatus;
+	movies_queued_count: number;
 	movies_roasted_count: number;
+	movies_skipped_count: number;
+	movies_failed_count: number;
 	movie_titles: string | null;
+	summary_json: string | null;
 	cursor: string | null;
 	error: string | null;
+	heartbeat_at: number | null;
+	lease_expires_at: number | null; // Reaped as abandoned once passed
 }
 
 export interface CronHistory {
@@ -279,6 +545,123 @@ export interface CronHistory {
 	runs: CronHistoryEntry[];
 }
 
+export interface CronLockReleaseResponse {
+	job: string;
+	released: CronHistoryEntry[];
+}
+
+// ---------------- LOG TYPES ----------------
+
+export interface LogPurgeResult {
+	dry_run: boolean;
+	retention_days: number;
+	cutoff_date: string; // Days before this (YYYY-MM-DD, UTC) are expired
+	days: string[]; // Expired day prefixes found
+	objects: number; // Deleted, or that would be deleted in a dry run
+	bytes: number;
+	truncated: boolean; // Stopped at the per-run object cap; the next run continues
+}
+
+export interface LogListFilters {
+	date: string; // YYYY-MM-DD (UTC)
+	endpoint?: string; // Path prefix, e.g. /movie or /cron/scheduled
+	status?: string; // Exact (404) or class (5xx)
+	movieId?: string;
+	limit: number;
+	cursor?: string; // Key to continue after, from the previous page
+}
+
+// One R2 log object, described from its custom metadata
+export interface LogSummary {
+	correlation_id: string;
+	key: string;
+	endpoint: string;
+	method: string;
+	status: string; // Final HTTP status, or 'unknown'
+	span_count: number;
+	entry_count: number; // Events across all spans
+	movie_id: string | null;
+	size: number;
+	uploaded_at: string;
+}
+
+export interface LogListResponse {
+	date: string;
+	count: number;
+	logs: LogSummary[];
+	cursor: string | null; // Pass as ?cursor= for the next page; null when the day is exhausted
+}
+
+// ---------------- JOB TYPES ----------------
+
+/**
+ * What a read does on a cache miss:
+ * inline - generate within the request (queue consumer only)
+ * queue - enqueue a generation job and return 202 with its id
+ * cache_only - 404 (keyless callers)
+ */
+export type GenerationMode = 'inline' | 'queue' | 'cache_only';
+
+// truth = research only if missing, refresh_truth = always re-research
+export type GenerationJobType = 'roast' | 'truth' | 'refresh_truth';
+
+// failed = the latest attempt failed and the queue will retry; dead_lettered = retries exhausted
+export type GenerationJobStatus = 'queued' | 'running' | 'succeeded' | 'skipped' | 'failed' | 'dead_lettered';
+
+export interface GenerationJob {
+	job_id: number;
+	type: GenerationJobType;
+	movie_id: number;
+	title: string | null;
+	language: string;
+	status: GenerationJobStatus;
+	cron_run_id: number | null;
+	attempts: number;
+	created_at: string;
+	started_at: string | null;
+	finished_at: string | null;
+	last_error: string | null;
+	result_url: string | null; // Where to read the result once the job succeeded
+}
+
+export interface CronRunJobsResponse {
+	run_id: number;
+	job: string;
+	run_status: CronRunStatus;
+	counts: Record<GenerationJobStatus, number>;
+	jobs: GenerationJob[];
+}
+
+// ---------------- DEAD LETTER TYPES ----------------
+
+export type DeadLetterStatus = 'pending' | 'replayed' | 'ignored';
+
+export interface DeadLetter {
+	id: number;
+	job_id: number | null;
+	type: GenerationJobType;
+	movie_id: number;
+	title: string;
+	language: string;
+	correlation_id: string;
+	attempts: number;
+	last_error: string | null;
+	status: DeadLetterStatus;
+	received_at: string;
+	resolved_at: string | null;
+}
+
+export interface DeadLetterListResponse {
+	status: DeadLetterStatus | 'all';
+	count: number;
+	dead_letters: DeadLetter[];
+}
+
+export interface DeadLetterReplayResponse {
+	replayed: number;
+	dead_letters: DeadLetter[];
+}
+
 // ---------------- BRAVE SEARCH TYPES ----------------
 
 export interface BraveSearchResponse {
@@ -497,3 +880,74 @@ export interface ExtractedMovieData {
 	}>;
 	infobox?: BraveInfoBox;
 }
+
+// ---------------- COST TYPES ----------------
+
+export type ApiProvider = 'brave' | 'grok' | 'claude';
+
+// USD prices; token prices are per million tokens
+export interface ModelPrice {
+	input_per_mtok?: number;
+	output_per_mtok?: number;
+	cache_write_per_mtok?: number;
+	cache_read_per_mtok?: number;
+	per_request?: number;
+}
+
+export interface ApiUsage {
+	input_tokens?: number;
+	output_tokens?: number;
+	cache_write_tokens?: number;
+	cache_read_tokens?: number;
+	requests?: number;
+}
+
+export type CostGroupBy = 'movie' | 'provider' | 'day';
+
+export interface CostReportRow {
+	key: string;
+	movie_title?: string | null; // Only when grouped by movie
+	calls: number;
+	input_tokens: number;
+	output_tokens: number;
+	cache_write_tokens: number;
+	cache_read_tokens: number;
+	cost_usd: number;
+	cost_inr: number;
+}
+
+export interface CostReportResponse {
+	from: string;
+	to: string;
+	group_by: CostGroupBy;
+	totals: Omit<CostReportRow, 'key' | 'movie_title'>;
+	groups: CostReportRow[];
+}
+
+// ---------------- BUDGET TYPES ----------------
+
+// Omitted limits are unlimited
+export interface ProviderBudget {
+	daily_usd?: number;
+	monthly_usd?: number;
+}
+
+export interface BudgetWindow {
+	limit_usd: number | null;
+	spent_usd: number;
+	remaining_usd: number | null;
+	resets_at: string;
+}
+
+export interface ProviderBudgetStatus {
+	provider: ApiProvider;
+	daily: BudgetWindow;
+	monthly: BudgetWindow;
+	exceeded: boolean;
+	retry_at: string | null; // When the exhausted window resets, null while within budget
+}
+
+export interface BudgetResponse {
+	generated_at: string;
+	providers: ProviderBudgetStatus[];
+}
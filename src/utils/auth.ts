@@ -1,65 +1,156 @@
-import type { Env } from '../types';
+import type { Env, ApiPrincipal, ApiScope } from '../types';
 import { json } from './response';
+import { getActiveApiKeyByHash } from '../services/database';
+import { verifySignedUrl } from './signedUrl';
+
+export const API_SCOPES: ApiScope[] = ['read', 'generate', 'admin', 'cron'];
+
+// last_used_at is written at most this often per key
+const LAST_USED_RESOLUTION_SECONDS = 60;
+
+const API_KEY_PREFIX = 'pb_';
+// Stored alongside the hash so keys can be told apart in listings
+const DISPLAY_PREFIX_LENGTH = 10;
+
+/**
+ * Hex SHA-256 of an API key; only hashes are stored in D1
+ */
+export async function hashApiKey(apiKey: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey));
+	return Array.from(new Uint8Array(digest))
+		.map((b) => b.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+/**
+ * Generates a new random API key (pb_ + 32 random bytes, base64url)
+ * @returns the plaintext key, its hash for storage and a short display prefix
+ */
+export async function generateApiKey(): Promise<{ key: string; keyHash: string; keyPrefix: string }> {
+	const bytes = crypto.getRandomValues(new Uint8Array(32));
+	const encoded = btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=+$/, '');
+	const key = `${API_KEY_PREFIX}${encoded}`;
+
+	return { key, keyHash: await hashApiKey(key), keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+/**
+ * Parses the comma-separated scopes column, dropping unknown scopes
+ */
+export function parseScopes(csv: string): ApiScope[] {
+	return csv
+		.split(',')
+		.map((s) => s.trim())
+		.filter((s): s is ApiScope => API_SCOPES.includes(s as ApiScope));
+}
 
 /**
- * Validates the API secret key from the request headers
+ * Validates the x-api-key header and resolves it to a principal
+ * Keys are looked up by hash in the api_keys table; the legacy API_SECRET_KEY
+ * still works as a root principal with every scope so existing clients keep working
  * @param request - The incoming request
- * @param env - Environment variables containing API_SECRET_KEY
- * @returns Response with 401 if unauthorized, null if authorized
+ * @param env - Environment variables containing API_SECRET_KEY and the D1 binding
+ * @returns The principal if authorized, otherwise a 401 Response
  */
-export function validateApiKey(request: Request, env: Env): Response | null {
+export async function validateApiKey(request: Request, env: Env): Promise<ApiPrincipal | Response> {
 	const apiKey = request.headers.get('x-api-key');
 
-	// Check if API_SECRET_KEY is configured
-	if (!env.API_SECRET_KEY) {
-		console.error('API_SECRET_KEY is not configured - rejecting request');
+	// Check if API key is provided
+	if (!apiKey) {
 		return json(
 			{
-				error: 'Service Unavailable',
-				message: 'Authentication is not configured',
+				error: 'Unauthorized',
+				message: 'Missing x-api-key header',
 			},
-			503
+			401
 		);
 	}
 
-	// Check if API key is provided
-	if (!apiKey) {
+	const keyHash = await hashApiKey(apiKey);
+
+	// Legacy single secret, compared by hash
+	if (env.API_SECRET_KEY && keyHash === (await hashApiKey(env.API_SECRET_KEY))) {
+		return { id: null, name: 'root', scopes: [...API_SCOPES], lastUsedAt: null, readOnly: false };
+	}
+
+	const dbKey = await getActiveApiKeyByHash(env, keyHash);
+	if (!dbKey) {
 		return json(
 			{
 				error: 'Unauthorized',
-				message: 'Missing x-api-key header',
+				message: 'Invalid API key',
 			},
 			401
 		);
 	}
 
-	// Validate API key
-	if (apiKey !== env.API_SECRET_KEY) {
+	return { id: dbKey.id, name: dbKey.name, scopes: parseScopes(dbKey.scopes), lastUsedAt: dbKey.last_used_at, readOnly: false };
+}
+
+/**
+ * Route paths listed in PUBLIC_ROUTES; only GET routes with the read scope can be public
+ */
+export function isPublicRoute(env: Env, routePath: string): boolean {
+	return (env.PUBLIC_ROUTES || '')
+		.split(',')
+		.map((p) => p.trim())
+		.includes(routePath);
+}
+
+/**
+ * Resolves the caller of a request:
+ * 1. x-api-key header → key principal (401 if invalid)
+ * 2. expires + sig query parameters → read-only 'signed-url' principal (401 if invalid or expired)
+ * 3. no credentials on a public route → read-only 'anonymous' principal
+ * @param route - The matched route, null if nothing matched
+ */
+export async function authenticateRequest(
+	request: Request,
+	url: URL,
+	env: Env,
+	route: { method: string; path: string; scope: ApiScope } | null
+): Promise<ApiPrincipal | Response> {
+	if (request.headers.has('x-api-key')) {
+		return validateApiKey(request, env);
+	}
+
+	const signature = await verifySignedUrl(env.URL_SIGNING_SECRET, request.method, url);
+	if (signature === 'valid') {
+		return { id: null, name: 'signed-url', scopes: ['read'], lastUsedAt: null, readOnly: true };
+	}
+	if (signature !== 'unsigned') {
 		return json(
 			{
 				error: 'Unauthorized',
-				message: 'Invalid API key',
+				message: signature === 'expired' ? 'Signed URL has expired' : 'Invalid URL signature',
 			},
 			401
 		);
 	}
 
-	// API key is valid
-	return null;
+	if (route && route.method === 'GET' && route.scope === 'read' && isPublicRoute(env, route.path)) {
+		return { id: null, name: 'anonymous', scopes: ['read'], lastUsedAt: null, readOnly: true };
+	}
+
+	// No credentials: reuse the missing header response
+	return validateApiKey(request, env);
 }
 
 /**
- * List of public endpoints that don't require authentication
- * Currently empty - all endpoints are protected
+ * Checks whether a principal may call a route; admin implies every other scope
  */
-export const PUBLIC_ENDPOINTS: string[] = [];
+export function hasScope(principal: ApiPrincipal, scope: ApiScope): boolean {
+	return principal.scopes.includes(scope) || principal.scopes.includes('admin');
+}
 
 /**
- * Check if an endpoint is public (doesn't require authentication)
- * @param _pathname - The request pathname (unused - all endpoints are protected)
- * @returns true if the endpoint is public
+ * Whether last_used_at is old enough to be worth writing again
  */
-export function isPublicEndpoint(_pathname: string): boolean {
-	// All endpoints require authentication
-	return false;
+export function shouldTouchApiKey(principal: ApiPrincipal): boolean {
+	if (principal.id === null) return false;
+	const now = Math.floor(Date.now() / 1000);
+	return !principal.lastUsedAt || now - principal.lastUsedAt >= LAST_USED_RESOLUTION_SECONDS;
 }
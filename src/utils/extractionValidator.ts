@@ -0,0 +1,142 @@
+import type { ExtractionCompleteness } from '../types';
+import type { GrokExtractionResponse } from '../services/brave';
+
+// Shape description used to normalize Grok output: a leaf type, a nested object, or a list of objects
+type FieldShape = 'string' | 'string[]' | { [key: string]: FieldShape } | { items: { [key: string]: FieldShape } };
+
+const MISSING = 'N/A';
+
+const RATING_SHAPE = {
+	source: 'string',
+	rating: 'string',
+	criticName: 'string',
+	quote: 'string',
+	type: 'string',
+	reviewLength: 'string',
+	timestamp: 'string',
+} as const;
+
+const QUOTE_SHAPE = { type: 'string', source: 'string', quote: 'string', context: 'string' } as const;
+
+const COMPARISON_SHAPE = { comparedTo: 'string', reason: 'string', source: 'string', favorable: 'string' } as const;
+
+// Mirrors GrokExtractionResponse / the RETURN STRUCTURE in the extraction prompt
+const EXTRACTION_SHAPE: { [key: string]: FieldShape } = {
+	title: 'string',
+	plot: {
+		detailedSummary: 'string',
+		subplots: 'string[]',
+		absurdities: 'string[]',
+		plotHoles: 'string[]',
+		pacingIssues: 'string',
+		genreConfusion: 'string',
+	},
+	characterArcs: { lead: 'string', supporting: 'string[]', wastedPotential: 'string[]', castingIssues: 'string[]' },
+	performances: { praised: 'string[]', criticized: 'string[]', chemistry: 'string', standouts: 'string[]' },
+	reception: {
+		criticalConsensus: 'string',
+		audienceSentiment: 'string',
+		split: 'string',
+		verdictBreakdown: { mustWatch: 'string', average: 'string', skip: 'string' },
+	},
+	ratings: { items: RATING_SHAPE },
+	positives: 'string[]',
+	negatives: 'string[]',
+	technicalAspects: { cinematography: 'string', music: 'string', editing: 'string', direction: 'string', screenplay: 'string' },
+	memorableQuotes: { items: QUOTE_SHAPE },
+	comparisons: { items: COMPARISON_SHAPE },
+	controversy: { summary: 'string', details: 'string[]', publicReaction: 'string', impact: 'string' },
+	satiricalAngles: 'string[]',
+	boxOffice: { verdict: 'string', numbers: 'string', context: 'string', trajectory: 'string' },
+	socialMedia: { twitterReactions: 'string[]', redditConsensus: 'string', youtubeReviewers: 'string[]', viralMoments: 'string[]' },
+	miscs: { director: 'string', runtime: 'string', release: 'string', certificate: 'string', technicalNotes: 'string', trivia: 'string[]' },
+};
+
+function isObject(value: unknown): value is Record<string, any> {
+	return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function normalizeValue(value: unknown, shape: FieldShape): unknown {
+	if (shape === 'string') {
+		if (typeof value === 'string' && value.trim()) return value.trim();
+		if (typeof value === 'number') return String(value);
+		return MISSING;
+	}
+
+	if (shape === 'string[]') {
+		if (!Array.isArray(value)) return typeof value === 'string' && value.trim() && value.trim() !== MISSING ? [value.trim()] : [];
+		return value.filter((item) => typeof item === 'string' && item.trim() && item.trim() !== MISSING).map((item) => item.trim());
+	}
+
+	if ('items' in shape && isObject(shape.items)) {
+		const itemShape = shape.items as { [key: string]: FieldShape };
+		if (!Array.isArray(value)) return [];
+		return value.filter(isObject).map((item) => normalizeObject(item, itemShape));
+	}
+
+	return normalizeObject(isObject(value) ? value : {}, shape as { [key: string]: FieldShape });
+}
+
+function normalizeObject(value: Record<string, any>, shape: { [key: string]: FieldShape }): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	for (const key of Object.keys(shape)) {
+		result[key] = normalizeValue(value[key], shape[key]);
+	}
+	return result;
+}
+
+/**
+ * Counts [filled, total] leaves of a normalized value
+ * Strings count when not 'N/A', lists count when non-empty
+ */
+function countFilled(value: unknown, shape: FieldShape): [number, number] {
+	if (shape === 'string') return [value !== MISSING ? 1 : 0, 1];
+	if (shape === 'string[]' || 'items' in shape) return [Array.isArray(value) && value.length > 0 ? 1 : 0, 1];
+
+	let filled = 0;
+	let total = 0;
+	for (const key of Object.keys(shape)) {
+		const [f, t] = countFilled((value as Record<string, unknown>)[key], (shape as { [key: string]: FieldShape })[key]);
+		filled += f;
+		total += t;
+	}
+	return [filled, total];
+}
+
+/**
+ * Normalizes raw Grok output into a complete GrokExtractionResponse and scores how much of it is filled.
+ * Missing strings become 'N/A', missing lists become [], unknown keys are dropped.
+ * Legacy rows (plot.summary instead of plot.detailedSummary) are mapped to the current shape.
+ */
+export function normalizeExtraction(raw: unknown): { extraction: GrokExtractionResponse; completeness: ExtractionCompleteness } {
+	const input = isObject(raw) ? { ...raw } : {};
+
+	if (isObject(input.plot) && !input.plot.detailedSummary && typeof input.plot.summary === 'string') {
+		input.plot = { ...input.plot, detailedSummary: input.plot.summary };
+	}
+
+	const extraction = normalizeObject(input, EXTRACTION_SHAPE) as unknown as GrokExtractionResponse;
+
+	const sections: Record<string, number> = {};
+	for (const key of Object.keys(EXTRACTION_SHAPE)) {
+		if (key === 'title') continue;
+		const [filled, total] = countFilled((extraction as unknown as Record<string, unknown>)[key], EXTRACTION_SHAPE[key]);
+		sections[key] = Math.round((filled / total) * 100) / 100;
+	}
+
+	const sectionScores = Object.values(sections);
+	const score = Math.round((sectionScores.reduce((sum, s) => sum + s, 0) / sectionScores.length) * 100) / 100;
+
+	return {
+		extraction,
+		completeness: {
+			score,
+			sections,
+			counts: {
+				ratings: extraction.ratings.length,
+				quotes: extraction.memorableQuotes.length,
+				comparisons: extraction.comparisons.length,
+			},
+		},
+	};
+}
@@ -189,6 +189,23 @@ const ISO_639_1: LanguageMap = {
   zu: "Zulu"
 };
 
+// Own keys only: "constructor" or "toString" are not language codes
+export function isLanguageCode(code: string): boolean {
+  return Object.prototype.hasOwnProperty.call(ISO_639_1, code.toLowerCase());
+}
+
 export function getLanguageName(code: string): string {
-  return ISO_639_1[code.toLowerCase()] || "Unknown Language";
+  return isLanguageCode(code) ? ISO_639_1[code.toLowerCase()] : "Unknown Language";
+}
+
+/**
+ * Parses a comma-separated allowlist of ISO 639-1 codes (e.g. "en,hi,ta").
+ * Unknown codes are dropped and English is always allowed.
+ */
+export function parseLanguageAllowlist(csv: string | undefined): string[] {
+  const codes = (csv || "")
+    .split(",")
+    .map((code) => code.trim().toLowerCase())
+    .filter((code) => code && isLanguageCode(code));
+  return Array.from(new Set(["en", ...codes]));
 }
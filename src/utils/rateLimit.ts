@@ -1,23 +1,115 @@
+import type { Env, RateLimitClass, RateLimitConfig, RateLimitPolicy, RateLimitResult } from '../types';
+import { DEFAULT_RATE_LIMITS } from '../constants';
+
+/**
+ * Resolves the policy for an API key and route class
+ * Precedence: RATE_LIMITS.keys[keyName][class] > RATE_LIMITS.classes[class] > DEFAULT_RATE_LIMITS[class]
+ */
+export function getRateLimitPolicy(env: Env, keyName: string, rateClass: RateLimitClass): RateLimitPolicy {
+	let config: RateLimitConfig = {};
+	if (env.RATE_LIMITS) {
+		try {
+			config = JSON.parse(env.RATE_LIMITS) as RateLimitConfig;
+		} catch {
+			console.error('[RATE_LIMIT] RATE_LIMITS is not valid JSON, using default limits');
+		}
+	}
+
+	return config.keys?.[keyName]?.[rateClass] || config.classes?.[rateClass] || DEFAULT_RATE_LIMITS[rateClass];
+}
+
 /**
- * Simple fixed-window rate limiter using KV
- * Uses a per-IP counter with a 60-second window
+ * Sliding-window counter: the previous window's count is weighted by how much of it
+ * still overlaps the sliding window, so bursts at window edges can't double the limit
+ * @param previous - Requests counted in the previous fixed window
+ * @param current - Requests counted so far in the current fixed window
+ * @param elapsed - Seconds since the current fixed window started
  */
-export async function checkRateLimit(
-	kv: KVNamespace,
-	clientIP: string,
-	maxRequests: number = 5,
-	windowSeconds: number = 60
-): Promise<{ allowed: boolean; remaining: number }> {
-	const windowKey = Math.floor(Date.now() / (windowSeconds * 1000));
-	const key = `rl:${clientIP}:${windowKey}`;
-
-	const current = await kv.get(key);
-	const count = current ? parseInt(current, 10) : 0;
-
-	if (count >= maxRequests) {
-		return { allowed: false, remaining: 0 };
+export function evaluateSlidingWindow(policy: RateLimitPolicy, previous: number, current: number, elapsed: number): RateLimitResult {
+	const window = policy.window_seconds;
+	const weight = Math.max(0, (window - elapsed) / window);
+	const estimated = previous * weight + current;
+	const resetSeconds = Math.max(1, Math.ceil(window - elapsed));
+
+	if (estimated + 1 > policy.limit) {
+		// Wait until the previous window has decayed enough to fit one more request,
+		// or until the next window if the current one alone is full
+		let retryAfter = resetSeconds;
+		if (current + 1 <= policy.limit && previous > 0) {
+			const decaySeconds = window * (1 - (policy.limit - current - 1) / previous) - elapsed;
+			retryAfter = Math.min(resetSeconds, Math.max(1, Math.ceil(decaySeconds)));
+		}
+		return { allowed: false, limit: policy.limit, remaining: 0, reset_seconds: resetSeconds, retry_after_seconds: retryAfter };
 	}
 
-	await kv.put(key, (count + 1).toString(), { expirationTtl: windowSeconds * 2 });
-	return { allowed: true, remaining: maxRequests - count - 1 };
+	return {
+		allowed: true,
+		limit: policy.limit,
+		remaining: Math.max(0, Math.floor(policy.limit - estimated - 1)),
+		reset_seconds: resetSeconds,
+		retry_after_seconds: 0,
+	};
+}
+
+/**
+ * Sliding-window rate limiter using KV
+ * Counts live in one key per fixed window; a denied request is not counted
+ * @param identity - What is being limited, e.g. "key:3:generate"
+ */
+export async function checkRateLimit(kv: KVNamespace, identity: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+	const nowSeconds = Date.now() / 1000;
+	const windowIndex = Math.floor(nowSeconds / policy.window_seconds);
+	const elapsed = nowSeconds - windowIndex * policy.window_seconds;
+	const currentKey = `rl:${identity}:${policy.window_seconds}:${windowIndex}`;
+	const previousKey = `rl:${identity}:${policy.window_seconds}:${windowIndex - 1}`;
+
+	const [currentValue, previousValue] = await Promise.all([kv.get(currentKey), kv.get(previousKey)]);
+	const current = currentValue ? parseInt(currentValue, 10) : 0;
+	const previous = previousValue ? parseInt(previousValue, 10) : 0;
+
+	const result = evaluateSlidingWindow(policy, previous, current, elapsed);
+
+	if (result.allowed) {
+		// KV needs a TTL of at least 60s; keep the key through the next window, where it is "previous"
+		await kv.put(currentKey, (current + 1).toString(), { expirationTtl: Math.max(60, policy.window_seconds * 2) });
+	}
+
+	return result;
+}
+
+/**
+ * Same contract as checkRateLimit, backed by the RateLimiter Durable Object (atomic, strongly consistent)
+ */
+export async function checkRateLimitDurable(
+	namespace: Env['RATE_LIMITER_DO'],
+	identity: string,
+	policy: RateLimitPolicy
+): Promise<RateLimitResult> {
+	const stub = namespace.get(namespace.idFromName(identity));
+	return stub.check(policy);
+}
+
+/**
+ * Picks the limiter implementation from the RATE_LIMITER env var ('kv' by default)
+ */
+export function limitRequest(env: Env, identity: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+	if (env.RATE_LIMITER === 'durable_object') {
+		return checkRateLimitDurable(env.RATE_LIMITER_DO, identity, policy);
+	}
+	return checkRateLimit(env.RECENT_ROAST_KV, identity, policy);
+}
+
+/**
+ * Standard rate limit response headers (Retry-After only when limited)
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+	const headers: Record<string, string> = {
+		'RateLimit-Limit': String(result.limit),
+		'RateLimit-Remaining': String(result.remaining),
+		'RateLimit-Reset': String(result.reset_seconds),
+	};
+	if (!result.allowed) {
+		headers['Retry-After'] = String(result.retry_after_seconds);
+	}
+	return headers;
 }
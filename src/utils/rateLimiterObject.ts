@@ -0,0 +1,58 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { RateLimitPolicy, RateLimitResult } from '../types';
+import { evaluateSlidingWindow } from './rateLimit';
+
+interface WindowState {
+	windowSeconds: number;
+	windowIndex: number;
+	current: number;
+	previous: number;
+}
+
+/**
+ * Atomic sliding-window rate limiter, one instance per identity (idFromName("key:3:read"))
+ * A Durable Object handles one call at a time and storage calls hold its input gate,
+ * so the read-modify-write below can't interleave - unlike the KV limiter
+ */
+export class RateLimiter extends DurableObject {
+	private state: WindowState | null = null;
+
+	/**
+	 * Counts one request against the policy (denied requests are not counted)
+	 */
+	async check(policy: RateLimitPolicy): Promise<RateLimitResult> {
+		if (!this.state) {
+			this.state = (await this.ctx.storage.get<WindowState>('window')) || null;
+		}
+
+		const nowSeconds = Date.now() / 1000;
+		const windowIndex = Math.floor(nowSeconds / policy.window_seconds);
+		const elapsed = nowSeconds - windowIndex * policy.window_seconds;
+
+		// Roll the window forward; a changed policy window starts from scratch
+		let state = this.state;
+		if (!state || state.windowSeconds !== policy.window_seconds || state.windowIndex < windowIndex - 1) {
+			state = { windowSeconds: policy.window_seconds, windowIndex, current: 0, previous: 0 };
+		} else if (state.windowIndex === windowIndex - 1) {
+			state = { ...state, windowIndex, current: 0, previous: state.current };
+		}
+
+		const result = evaluateSlidingWindow(policy, state.previous, state.current, elapsed);
+		if (result.allowed) {
+			state = { ...state, current: state.current + 1 };
+		}
+
+		this.state = state;
+		await this.ctx.storage.put('window', state);
+
+		// Clean up idle limiters once both windows have passed
+		await this.ctx.storage.setAlarm(Date.now() + policy.window_seconds * 2 * 1000);
+
+		return result;
+	}
+
+	async alarm(): Promise<void> {
+		this.state = null;
+		await this.ctx.storage.deleteAll();
+	}
+}
@@ -1,6 +1,17 @@
-export function json(data: any, status = 200) {
+export function json(data: any, status = 200, headers: Record<string, string> = {}) {
 	return new Response(JSON.stringify(data), {
 		status,
-		headers: { 'Content-Type': 'application/json' },
+		headers: { 'Content-Type': 'application/json', ...headers },
 	});
 }
+
+/**
+ * Copy of a response with extra headers (handler responses may have immutable headers)
+ */
+export function withHeaders(response: Response, headers: Record<string, string>) {
+	const copy = new Response(response.body, response);
+	for (const [name, value] of Object.entries(headers)) {
+		copy.headers.set(name, value);
+	}
+	return copy;
+}
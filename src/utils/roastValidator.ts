@@ -0,0 +1,133 @@
+import type { MovieRoast } from '../types';
+
+// Labels the prompt allows for reception (English roasts only - other languages translate them)
+export const RECEPTION_LABELS = ['Avoid', 'Skip It', 'Mixed Bag', 'Worth Watching', 'Strong Approval', 'Universal Acclaim'];
+
+const REQUIRED_TEXT_FIELDS = ['headline', 'overview', 'roast', 'shareable_caption'] as const;
+const CHIP_COUNT = 3;
+const SIMILAR_MOVIES_COUNT = 4;
+const CAPTION_HASHTAG = '#PlotBurn';
+
+export interface RoastValidationResult {
+	roast: MovieRoast | null; // Repaired roast, null when violations remain
+	violations: string[]; // Problems that could not be repaired (sent back to Claude)
+	repairs: string[]; // Problems that were fixed in place
+}
+
+function isNonEmptyString(value: unknown): value is string {
+	return typeof value === 'string' && value.trim().length > 0;
+}
+
+function wordCount(value: string): number {
+	return value.trim().split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Validates Claude's parsed output against the MovieRoast contract from the prompt.
+ * Safe, mechanical fixes (trimming, clamping bars, trailing hashtag, extra list items)
+ * are applied and reported as repairs; anything needing new content is a violation.
+ */
+export function validateRoast(raw: unknown, language: string = 'en'): RoastValidationResult {
+	const violations: string[] = [];
+	const repairs: string[] = [];
+
+	if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+		return { roast: null, violations: ['Response must be a JSON object'], repairs };
+	}
+
+	const input = raw as Record<string, any>;
+
+	// Text fields
+	const text: Record<string, string> = {};
+	for (const field of REQUIRED_TEXT_FIELDS) {
+		if (isNonEmptyString(input[field])) {
+			text[field] = input[field].trim();
+		} else {
+			violations.push(`"${field}" must be a non-empty string`);
+		}
+	}
+
+	// shareable_caption must end with #PlotBurn
+	if (text.shareable_caption && !text.shareable_caption.endsWith(CAPTION_HASHTAG)) {
+		const withoutTag = text.shareable_caption.split(CAPTION_HASHTAG).join('').replace(/\s+/g, ' ').trim();
+		text.shareable_caption = `${withoutTag} ${CAPTION_HASHTAG}`;
+		repairs.push(`Moved/added ${CAPTION_HASHTAG} at the end of shareable_caption`);
+	}
+
+	// reception
+	let reception: MovieRoast['reception'] | null = null;
+	if (!input.reception || typeof input.reception !== 'object') {
+		violations.push('"reception" must be an object with "bars" and "label"');
+	} else {
+		let bars = typeof input.reception.bars === 'string' ? parseFloat(input.reception.bars) : input.reception.bars;
+		if (typeof bars !== 'number' || isNaN(bars)) {
+			violations.push('"reception.bars" must be a number from 1 to 10');
+		} else {
+			const clamped = Math.min(10, Math.max(1, Math.round(bars)));
+			if (clamped !== input.reception.bars) {
+				repairs.push(`Normalized reception.bars from ${JSON.stringify(input.reception.bars)} to ${clamped}`);
+			}
+			bars = clamped;
+		}
+
+		const label = isNonEmptyString(input.reception.label) ? input.reception.label.trim() : '';
+		if (!label) {
+			violations.push('"reception.label" must be a non-empty string');
+		} else if (language === 'en' && !RECEPTION_LABELS.includes(label)) {
+			violations.push(`"reception.label" must be one of: ${RECEPTION_LABELS.join(', ')} (got "${label}")`);
+		}
+
+		if (typeof bars === 'number' && !isNaN(bars) && label) {
+			reception = { bars, label };
+		}
+	}
+
+	// chips: exactly 3, two words each
+	let chips: string[] = [];
+	if (!Array.isArray(input.chips)) {
+		violations.push(`"chips" must be an array of exactly ${CHIP_COUNT} two-word strings`);
+	} else {
+		chips = input.chips.filter(isNonEmptyString).map((chip: string) => chip.trim());
+		const badChips = chips.filter((chip) => wordCount(chip) !== 2);
+		if (badChips.length > 0) {
+			violations.push(`Every chip must be exactly 2 words (invalid: ${badChips.map((c) => `"${c}"`).join(', ')})`);
+		} else if (chips.length > CHIP_COUNT) {
+			repairs.push(`Trimmed chips from ${chips.length} to ${CHIP_COUNT}`);
+			chips = chips.slice(0, CHIP_COUNT);
+		} else if (chips.length < CHIP_COUNT) {
+			violations.push(`"chips" must have exactly ${CHIP_COUNT} items (got ${chips.length})`);
+		}
+	}
+
+	// similar_movies: exactly 4
+	let similarMovies: string[] = [];
+	if (!Array.isArray(input.similar_movies)) {
+		violations.push(`"similar_movies" must be an array of exactly ${SIMILAR_MOVIES_COUNT} strings`);
+	} else {
+		similarMovies = input.similar_movies.filter(isNonEmptyString).map((movie: string) => movie.trim());
+		if (similarMovies.length > SIMILAR_MOVIES_COUNT) {
+			repairs.push(`Trimmed similar_movies from ${similarMovies.length} to ${SIMILAR_MOVIES_COUNT}`);
+			similarMovies = similarMovies.slice(0, SIMILAR_MOVIES_COUNT);
+		} else if (similarMovies.length < SIMILAR_MOVIES_COUNT) {
+			violations.push(`"similar_movies" must have exactly ${SIMILAR_MOVIES_COUNT} items (got ${similarMovies.length})`);
+		}
+	}
+
+	if (violations.length > 0 || !reception) {
+		return { roast: null, violations, repairs };
+	}
+
+	return {
+		roast: {
+			headline: text.headline,
+			overview: text.overview,
+			roast: text.roast,
+			reception,
+			chips,
+			similar_movies: similarMovies,
+			shareable_caption: text.shareable_caption,
+		},
+		violations,
+		repairs,
+	};
+}
@@ -0,0 +1,278 @@
+import type { Env } from '../types';
+
+export type LogLevel = 'INFO' | 'WARN' | 'ERROR' | 'DEBUG';
+
+export type SpanStatus = 'ok' | 'error' | 'unfinished';
+
+// Something that happened within a span (request received, external call, warning, ...)
+export interface SpanEvent {
+	timestamp: string;
+	level: LogLevel;
+	message: string;
+	responseStatus?: number;
+	duration?: number; // ms
+	error?: string;
+	metadata?: Record<string, any>;
+}
+
+export interface SpanRecord {
+	spanId: string;
+	parentSpanId: string | null; // null for the root span
+	name: string; // e.g. GET /movie/550, tmdb.movie_details, brave.search, grok.extraction, claude.roast, d1.upsert_roast
+	startTime: string;
+	duration?: number; // ms; missing if the span was still open when the trace was flushed
+	status: SpanStatus;
+	error?: string;
+	attributes: Record<string, any>;
+	events: SpanEvent[];
+}
+
+// One document per correlation id, stored at logs/YYYY-MM-DD/<correlationId>.json
+export interface TraceDocument {
+	correlationId: string;
+	endpoint: string;
+	method: string;
+	startTime: string;
+	endTime: string;
+	totalDuration: number;
+	finalStatus?: number;
+	spans: SpanRecord[]; // In start order, root first
+}
+
+interface TraceContext {
+	correlationId: string;
+	spans: SpanRecord[];
+}
+
+const SENSITIVE_KEYS = ['authorization', 'api_key', 'apikey', 'token', 'password', 'secret'];
+
+function redactSensitiveData(obj: any): any {
+	if (!obj || typeof obj !== 'object') return obj;
+
+	const redacted = Array.isArray(obj) ? [...obj] : { ...obj };
+	for (const key in redacted) {
+		const lowerKey = key.toLowerCase();
+		if (SENSITIVE_KEYS.some((sk) => lowerKey.includes(sk))) {
+			redacted[key] = '[REDACTED]';
+		} else if (typeof redacted[key] === 'object' && redacted[key] !== null) {
+			redacted[key] = redactSensitiveData(redacted[key]);
+		}
+	}
+
+	return redacted;
+}
+
+export function generateCorrelationId(): string {
+	return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * A timed unit of work within a trace; child spans are passed down to the code doing the work
+ * Events are console-logged immediately (Cloudflare dashboard) and stored with the trace on flush
+ */
+export class Span {
+	private context: TraceContext;
+	private record: SpanRecord;
+	private startedAt: number;
+
+	constructor(context: TraceContext, name: string, parentSpanId: string | null, attributes: Record<string, any> = {}) {
+		this.context = context;
+		this.startedAt = Date.now();
+		this.record = {
+			spanId: crypto.randomUUID().slice(0, 8),
+			parentSpanId,
+			name,
+			startTime: new Date(this.startedAt).toISOString(),
+			status: 'unfinished',
+			attributes: redactSensitiveData(attributes),
+			events: [],
+		};
+		context.spans.push(this.record);
+	}
+
+	get correlationId(): string {
+		return this.context.correlationId;
+	}
+
+	startSpan(name: string, attributes?: Record<string, any>): Span {
+		return new Span(this.context, name, this.record.spanId, attributes);
+	}
+
+	/**
+	 * Runs work in a child span, ending it as ok or error (the error is rethrown)
+	 */
+	async trace<T>(name: string, attributes: Record<string, any>, work: (span: Span) => Promise<T>): Promise<T> {
+		const span = this.startSpan(name, attributes);
+		let failure: unknown;
+		try {
+			return await work(span);
+		} catch (error) {
+			failure = error;
+			throw error;
+		} finally {
+			span.end(failure);
+		}
+	}
+
+	setAttributes(attributes: Record<string, any>) {
+		Object.assign(this.record.attributes, redactSensitiveData(attributes));
+	}
+
+	/**
+	 * Records the span's duration; with an error the span is marked failed. Only the first call counts
+	 */
+	end(error?: unknown) {
+		if (this.record.status !== 'unfinished') return;
+		this.record.duration = Date.now() - this.startedAt;
+		this.record.status = error === undefined ? 'ok' : 'error';
+		if (error !== undefined) {
+			this.record.error = errorMessage(error);
+		}
+	}
+
+	private addEvent(event: SpanEvent) {
+		const durationStr = event.duration !== undefined ? `${event.duration}ms` : '-';
+		const movieId = event.metadata?.movieId ?? this.record.attributes.movieId;
+		const movieInfo = movieId ? `[Movie: ${movieId}${event.metadata?.movieTitle ? ` - ${event.metadata.movieTitle}` : ''}]` : '';
+		const logMessage = `[${event.level}] [${this.context.correlationId}] [${this.record.name}] ${event.message} ${movieInfo} - ${event.responseStatus || 'N/A'} - ${durationStr}`;
+
+		if (event.level === 'ERROR') {
+			console.error(logMessage, event.error || '', event.metadata ? JSON.stringify(event.metadata) : '');
+		} else if (event.level === 'WARN') {
+			console.warn(logMessage, event.metadata ? JSON.stringify(event.metadata) : '');
+		} else {
+			console.log(logMessage);
+		}
+
+		this.record.events.push(event);
+	}
+
+	logRequest(metadata?: Record<string, any>) {
+		this.addEvent({ timestamp: new Date().toISOString(), level: 'INFO', message: 'request', metadata: redactSensitiveData(metadata) });
+	}
+
+	logResponse(status: number, metadata?: Record<string, any>) {
+		this.addEvent({
+			timestamp: new Date().toISOString(),
+			level: status >= 400 ? 'ERROR' : 'INFO',
+			message: 'response',
+			responseStatus: status,
+			duration: Date.now() - this.startedAt,
+			metadata: redactSensitiveData(metadata),
+		});
+	}
+
+	logError(error: unknown, metadata?: Record<string, any>) {
+		this.addEvent({
+			timestamp: new Date().toISOString(),
+			level: 'ERROR',
+			message: 'error',
+			error: errorMessage(error),
+			duration: Date.now() - this.startedAt,
+			metadata: redactSensitiveData(metadata),
+		});
+	}
+
+	/**
+	 * One external API call (or attempt) made within this span
+	 */
+	logExternalAPICall(apiName: string, requestData: any, responseData?: any, error?: string, duration?: number) {
+		this.addEvent({
+			timestamp: new Date().toISOString(),
+			level: error ? 'ERROR' : 'DEBUG',
+			message: apiName,
+			duration,
+			error,
+			metadata: {
+				...redactSensitiveData(requestData),
+				...(responseData ? redactSensitiveData(responseData) : {}),
+			},
+		});
+	}
+
+	logDebug(message: string, metadata?: Record<string, any>) {
+		this.addEvent({ timestamp: new Date().toISOString(), level: 'DEBUG', message, metadata: redactSensitiveData(metadata) });
+	}
+
+	logWarn(message: string, metadata?: Record<string, any>) {
+		this.addEvent({ timestamp: new Date().toISOString(), level: 'WARN', message, metadata: redactSensitiveData(metadata) });
+	}
+}
+
+/**
+ * All spans of one request, scheduled run or queue message, stored as one R2 document per correlation id
+ * Create one per entry point, pass trace.root (or its children) down, and flush() in a finally block
+ */
+export class Trace {
+	private env: Env;
+	private context: TraceContext;
+	private startedAt: number;
+	private endpoint: string;
+	private method: string;
+	public readonly root: Span;
+
+	constructor(env: Env, endpoint: string, method: string, correlationId?: string) {
+		this.env = env;
+		this.endpoint = endpoint;
+		this.method = method;
+		this.startedAt = Date.now();
+		this.context = { correlationId: correlationId || generateCorrelationId(), spans: [] };
+		this.root = new Span(this.context, `${method} ${endpoint}`, null);
+	}
+
+	get correlationId(): string {
+		return this.context.correlationId;
+	}
+
+	/**
+	 * Ends the root span and writes the trace document to R2
+	 * Spans still open (e.g. abandoned by an error) are stored as unfinished
+	 */
+	async flush(finalStatus?: number): Promise<void> {
+		this.root.end(finalStatus !== undefined && finalStatus >= 500 ? `HTTP ${finalStatus}` : undefined);
+		if (!this.env.R2) return;
+
+		const spans = this.context.spans;
+		const document: TraceDocument = {
+			correlationId: this.correlationId,
+			endpoint: this.endpoint,
+			method: this.method,
+			startTime: new Date(this.startedAt).toISOString(),
+			endTime: new Date().toISOString(),
+			totalDuration: Date.now() - this.startedAt,
+			finalStatus,
+			spans,
+		};
+
+		const date = new Date().toISOString().split('T')[0];
+		const logKey = `logs/${date}/${this.correlationId}.json`;
+
+		// Metadata is what GET /admin/logs filters on without downloading each document
+		const movieId =
+			spans.find((span) => span.attributes.movieId)?.attributes.movieId ??
+			spans.flatMap((span) => span.events).find((event) => event.metadata?.movieId)?.metadata?.movieId;
+		const eventCount = spans.reduce((count, span) => count + span.events.length, 0);
+
+		try {
+			await this.env.R2.put(logKey, JSON.stringify(document, null, 2), {
+				customMetadata: {
+					correlationId: this.correlationId,
+					endpoint: this.endpoint,
+					method: this.method,
+					status: finalStatus?.toString() || 'unknown',
+					spanCount: spans.length.toString(),
+					entryCount: eventCount.toString(),
+					...(movieId ? { movieId: String(movieId) } : {}),
+				},
+			});
+
+			console.log(`[TRACE] Flushed ${spans.length} spans (${eventCount} events) to R2: ${logKey}`);
+		} catch (err) {
+			console.error('[TRACE] Failed to flush trace to R2:', err);
+		}
+	}
+}
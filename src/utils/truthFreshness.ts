@@ -0,0 +1,52 @@
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Used when TRUTH_REFRESH_DAYS is missing or unparseable
+export const DEFAULT_TRUTH_REFRESH_DAYS = [3, 10, 30];
+
+export interface TruthFreshness {
+	stale: boolean;
+	next_refresh_at: string | null; // ISO time of the next checkpoint, null when none are left
+	checkpoint_days: number | null; // The checkpoint (days after release) that made it stale
+}
+
+/**
+ * Parses the re-research schedule (e.g. "3,10,30" = days after release)
+ */
+export function parseRefreshSchedule(csv: string | undefined): number[] {
+	const days = (csv || '')
+		.split(',')
+		.map((d) => parseInt(d.trim()))
+		.filter((d) => !isNaN(d) && d >= 0);
+	return days.length > 0 ? Array.from(new Set(days)).sort((a, b) => a - b) : DEFAULT_TRUTH_REFRESH_DAYS;
+}
+
+/**
+ * Decides whether an extraction is stale under the release-relative schedule.
+ * A truth is stale when a checkpoint (release + N days) has passed since it was fetched,
+ * so opening-day research gets redone once reception has had time to settle.
+ * @param releaseDate - YYYY-MM-DD, truths without a release date never go stale
+ * @param fetchedAt - unix seconds of the latest extraction
+ * @param now - unix seconds
+ */
+export function getTruthFreshness(releaseDate: string | null, fetchedAt: number, now: number, schedule: number[]): TruthFreshness {
+	const releaseMs = releaseDate ? Date.parse(`${releaseDate}T00:00:00Z`) : NaN;
+	if (isNaN(releaseMs)) {
+		return { stale: false, next_refresh_at: null, checkpoint_days: null };
+	}
+
+	const release = Math.floor(releaseMs / 1000);
+	const checkpoints = schedule.map((days) => ({ days, at: release + days * DAY_SECONDS }));
+
+	// Latest checkpoint that has passed but the extraction predates
+	const missed = checkpoints.filter((c) => c.at <= now && c.at > fetchedAt).pop();
+	if (missed) {
+		return { stale: true, next_refresh_at: new Date(now * 1000).toISOString(), checkpoint_days: missed.days };
+	}
+
+	const upcoming = checkpoints.find((c) => c.at > now);
+	return {
+		stale: false,
+		next_refresh_at: upcoming ? new Date(upcoming.at * 1000).toISOString() : null,
+		checkpoint_days: null,
+	};
+}
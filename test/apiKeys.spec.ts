@@ -0,0 +1,41 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { ApiKeySecretResponse, Env } from '../src/types';
+import { handleRotateApiKey } from '../src/handlers/apiKeys';
+import { getApiKeyById, insertApiKey } from '../src/services/database';
+import { applySchema } from './db';
+
+const testEnv = env as unknown as Env;
+
+beforeAll(async () => {
+	await applySchema(testEnv);
+});
+
+async function rotate(keyId: number, body: Record<string, unknown>): Promise<ApiKeySecretResponse> {
+	const request = new Request(`https://example.com/admin/keys/${keyId}/rotate`, { method: 'POST', body: JSON.stringify(body) });
+	const response = await handleRotateApiKey(String(keyId), request, testEnv);
+	expect(response.status).toBe(201);
+	return response.json();
+}
+
+describe('API key rotation', () => {
+	it('keeps the expiry of an expiring key on the replacement', async () => {
+		const expiresAt = Math.floor(Date.now() / 1000) + 7 * 24 * 3600;
+		const keyId = await insertApiKey(testEnv, { name: 'partner', keyHash: 'hash-1', keyPrefix: 'pb_one', scopes: ['read'], expiresAt });
+
+		const rotated = await rotate(keyId, { grace_hours: 1 });
+
+		expect((await getApiKeyById(testEnv, rotated.api_key.id))?.expires_at).toBe(expiresAt);
+		expect(rotated.api_key.expires_at).toBe(new Date(expiresAt * 1000).toISOString());
+		expect(rotated.api_key.status).toBe('expiring');
+	});
+
+	it('does not give the replacement of a non-expiring key an expiry', async () => {
+		const keyId = await insertApiKey(testEnv, { name: 'app', keyHash: 'hash-2', keyPrefix: 'pb_two', scopes: ['read'], expiresAt: null });
+
+		const rotated = await rotate(keyId, {});
+
+		expect(rotated.api_key.expires_at).toBeNull();
+		expect(rotated.previous?.status).toBe('expiring');
+	});
+});
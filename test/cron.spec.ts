@@ -0,0 +1,54 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { Env } from '../src/types';
+import { CronTracker, getCronRun, syncCronRunProgress } from '../src/services/cron';
+import { insertGenerationJobs, updateGenerationJobStatus } from '../src/services/database';
+import { applySchema } from './db';
+
+const testEnv = env as unknown as Env;
+
+beforeAll(async () => {
+	await applySchema(testEnv);
+});
+
+async function dispatch(runId: number, movieIds: number[]): Promise<number[]> {
+	return insertGenerationJobs(
+		testEnv,
+		movieIds.map((movieId) => ({ type: 'roast', movieId, title: `Movie ${movieId}`, language: 'en', correlationId: 'test', cronRunId: runId }))
+	);
+}
+
+async function finishJobs(runId: number, jobIds: number[], status: 'succeeded' | 'dead_lettered') {
+	for (const jobId of jobIds) {
+		await updateGenerationJobStatus(testEnv, jobId, status);
+		await syncCronRunProgress(testEnv, runId);
+	}
+}
+
+describe('cron run progress', () => {
+	it('turns a failed run into success when its dead letters are replayed', async () => {
+		const tracker = new CronTracker(testEnv, 'movie_roast');
+		const runId = await tracker.startRun();
+		const jobIds = await dispatch(runId, [1, 2]);
+		await tracker.markDispatched(runId, jobIds.length);
+
+		await finishJobs(runId, jobIds, 'dead_lettered');
+		expect((await getCronRun(testEnv, runId))?.status).toBe('failed');
+
+		await finishJobs(runId, jobIds, 'succeeded');
+		expect((await getCronRun(testEnv, runId))?.status).toBe('success');
+	});
+
+	it('follows the jobs a run queued before its dispatch failed, at best as partial', async () => {
+		const tracker = new CronTracker(testEnv, 'movie_roast');
+		const runId = await tracker.startRun();
+		const jobIds = await dispatch(runId, [3, 4]);
+		await tracker.failRun(runId, new Error('TMDB fetch failed'));
+
+		await finishJobs(runId, [jobIds[0]], 'succeeded');
+		expect((await getCronRun(testEnv, runId))?.status).toBe('failed');
+
+		await finishJobs(runId, [jobIds[1]], 'succeeded');
+		expect((await getCronRun(testEnv, runId))?.status).toBe('partial');
+	});
+});
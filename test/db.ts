@@ -0,0 +1,15 @@
+import schema from '../schema.sql?raw';
+import type { Env } from '../src/types';
+
+/**
+ * Creates the tables from schema.sql in the test D1 database, which starts out empty
+ */
+export async function applySchema(env: Env): Promise<void> {
+	const statements = schema
+		.replace(/--.*$/gm, '')
+		.split(';')
+		.map((statement) => statement.trim())
+		.filter(Boolean);
+
+	await env.plotburn_db.batch(statements.map((statement) => env.plotburn_db.prepare(statement)));
+}
@@ -0,0 +1,53 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { Env, MovieQueueMessage } from '../src/types';
+import { handleReplayDeadLetter } from '../src/handlers/deadLetters';
+import { getDeadLetterById, getGenerationJob, insertDeadLetter, insertGenerationJobs, updateGenerationJobStatus } from '../src/services/database';
+import { applySchema } from './db';
+
+const testEnv = env as unknown as Env;
+
+beforeAll(async () => {
+	await applySchema(testEnv);
+});
+
+// A job that failed every delivery and was recorded by the DLQ consumer
+async function deadLetteredJob(movieId: number): Promise<{ jobId: number; deadLetterId: number }> {
+	const [jobId] = await insertGenerationJobs(testEnv, [{ type: 'roast', movieId, title: `Movie ${movieId}`, language: 'en', correlationId: 'test' }]);
+	for (let attempt = 0; attempt < 4; attempt++) {
+		await updateGenerationJobStatus(testEnv, jobId, 'running');
+	}
+	await updateGenerationJobStatus(testEnv, jobId, 'dead_lettered', 'Claude API failed');
+	// Backdate the failure so a rewritten finished_at would show
+	await testEnv.plotburn_db.prepare('UPDATE generation_jobs SET finished_at = 1000 WHERE id = ?').bind(jobId).run();
+
+	const message: MovieQueueMessage = { movieId, title: `Movie ${movieId}`, correlationId: 'test', type: 'roast', language: 'en', jobId };
+	const deadLetterId = await insertDeadLetter(testEnv, message, { attempts: 4, lastError: 'Claude API failed' });
+	return { jobId, deadLetterId };
+}
+
+function withQueue(sendBatch: () => Promise<void>): Env {
+	return { ...testEnv, MOVIE_QUEUE: { sendBatch } as unknown as Env['MOVIE_QUEUE'] };
+}
+
+describe('dead letter replay', () => {
+	it('requeues the job with a fresh attempt count', async () => {
+		const { jobId, deadLetterId } = await deadLetteredJob(800);
+
+		const response = await handleReplayDeadLetter(String(deadLetterId), withQueue(async () => {}));
+
+		expect(response.status).toBe(200);
+		expect(await getGenerationJob(testEnv, jobId)).toMatchObject({ status: 'queued', attempts: 0, finished_at: null });
+		expect((await getDeadLetterById(testEnv, deadLetterId))?.status).toBe('replayed');
+	});
+
+	it('leaves the job and dead letter as they were when the send fails', async () => {
+		const { jobId, deadLetterId } = await deadLetteredJob(801);
+
+		const replay = handleReplayDeadLetter(String(deadLetterId), withQueue(() => Promise.reject(new Error('Queue unavailable'))));
+
+		await expect(replay).rejects.toThrow('Queue unavailable');
+		expect(await getGenerationJob(testEnv, jobId)).toMatchObject({ status: 'dead_lettered', attempts: 4, finished_at: 1000 });
+		expect((await getDeadLetterById(testEnv, deadLetterId))?.status).toBe('pending');
+	});
+});
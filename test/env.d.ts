@@ -1,3 +1,8 @@
 declare module 'cloudflare:test' {
 	interface ProvidedEnv extends Env {}
 }
+
+declare module '*.sql?raw' {
+	const content: string;
+	export default content;
+}
@@ -0,0 +1,87 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import type { Env, FeedResponse, MovieRoast } from '../src/types';
+import { handleFeed } from '../src/handlers/feed';
+import { handlePopularMovies } from '../src/handlers/popular';
+import { insertExtraction, upsertRoast } from '../src/services/database';
+import { Trace } from '../src/utils/tracing';
+import { applySchema } from './db';
+
+const testEnv = env as unknown as Env;
+
+beforeAll(async () => {
+	await applySchema(testEnv);
+	fetchMock.activate();
+	fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+// Refreshes the popular category from a mocked TMDB list, in this order
+async function refreshPopular(movieIds: number[]) {
+	fetchMock
+		.get('https://api.themoviedb.org')
+		.intercept({ path: (path) => path.startsWith('/3/movie/popular?') })
+		.reply(200, {
+			page: 1,
+			total_pages: 1,
+			total_results: movieIds.length,
+			results: movieIds.map((id) => ({ id, title: `Movie ${id}`, release_date: '2026-01-01', popularity: 100, vote_average: 7, vote_count: 10 })),
+		});
+	await handlePopularMovies(testEnv, new Trace(testEnv, '/popular', 'GET').root);
+}
+
+async function feedPage(cursor: string | null): Promise<FeedResponse> {
+	const params = new URLSearchParams({ category: 'popular', limit: '2', ...(cursor ? { cursor } : {}) });
+	return (await handleFeed(params, testEnv)).json();
+}
+
+describe('feed pagination', () => {
+	it('pages through the category in TMDB order', async () => {
+		await refreshPopular([30, 10, 50, 20, 40]);
+
+		const first = await feedPage(null);
+		const second = await feedPage(first.next_cursor);
+		const third = await feedPage(second.next_cursor);
+
+		expect([first, second, third].flatMap((page) => page.movies.map((movie) => movie.id))).toEqual([30, 10, 50, 20, 40]);
+		expect(third.next_cursor).toBeNull();
+	});
+
+	it('continues a cursor from before a category refresh', async () => {
+		await refreshPopular([30, 10, 50, 20, 40]);
+		const first = await feedPage(null);
+
+		// A refresh rewrites every row of the category, a second later
+		await new Promise((resolve) => setTimeout(resolve, 1100));
+		await refreshPopular([60, 30, 10, 50, 20, 40]);
+
+		// The cursor keeps its rank in the new list instead of pointing before every row
+		const second = await feedPage(first.next_cursor);
+		expect(second.movies).toHaveLength(2);
+		expect(second.next_cursor).not.toBeNull();
+	});
+
+	it('rejects a malformed cursor', async () => {
+		const response = await handleFeed(new URLSearchParams({ cursor: 'not a cursor' }), testEnv);
+		expect(response.status).toBe(400);
+	});
+
+	it('attaches the active roast and the latest extraction of each movie', async () => {
+		await refreshPopular([10, 20]);
+		const usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, total_cost: 0 };
+		// Fetched in the same second: the later row is the latest
+		for (const summary of ['Older summary', 'Newer summary']) {
+			await insertExtraction(testEnv, 10, { source: 'grok-extraction', model: 'grok', content: { plot: { summary } }, evidence: {}, citations: [], usage });
+		}
+		await upsertRoast(testEnv, 10, { headline: 'Old take' } as MovieRoast, 'en');
+		await upsertRoast(testEnv, 10, { headline: 'New take' } as MovieRoast, 'en');
+
+		const page = await feedPage(null);
+
+		expect(page.movies.map((movie) => movie.id)).toEqual([10, 20]);
+		expect(page.movies[0].truth?.summary).toBe('Newer summary');
+		expect(page.movies[0].roast?.headline).toBe('New take');
+		expect(page.movies[1]).toMatchObject({ has_roast: false, truth: null });
+	});
+});
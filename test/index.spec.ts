@@ -1,24 +1,83 @@
 import { env, createExecutionContext, waitOnExecutionContext, SELF } from 'cloudflare:test';
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeAll } from 'vitest';
 import worker from '../src/index';
+import type { Env } from '../src/types';
+import { insertApiKey } from '../src/services/database';
+import { generateApiKey } from '../src/utils/auth';
+import { applySchema } from './db';
 
-// For now, you'll need to do something like this to get a correctly-typed
-// `Request` to pass to `worker.fetch()`.
 const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
 
-describe('Hello World worker', () => {
-	it('responds with Hello World! (unit style)', async () => {
-		const request = new IncomingRequest('http://example.com');
-		// Create an empty context to pass to `worker.fetch()`.
+const testEnv = env as unknown as Env;
+
+describe('worker authentication', () => {
+	it('rejects requests without an API key (unit style)', async () => {
+		const request = new IncomingRequest('http://example.com/now-playing');
 		const ctx = createExecutionContext();
-		const response = await worker.fetch(request, env, ctx);
-		// Wait for all `Promise`s passed to `ctx.waitUntil()` to settle before running test assertions
+		const response = await worker.fetch(request, testEnv, ctx);
+		// The request trace is flushed to R2 via ctx.waitUntil()
 		await waitOnExecutionContext(ctx);
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+
+		expect(response.status).toBe(401);
+		expect(await response.json()).toEqual({ error: 'Unauthorized', message: 'Missing x-api-key header' });
+	});
+
+	it('rejects unknown routes without an API key (integration style)', async () => {
+		const response = await SELF.fetch('https://example.com/');
+		expect(response.status).toBe(401);
+	});
+
+	it('does not open admin routes to anonymous callers', async () => {
+		const response = await SELF.fetch('https://example.com/admin/keys');
+		expect(response.status).toBe(401);
+	});
+
+	it('rejects a signed URL when it cannot be verified', async () => {
+		const response = await SELF.fetch('https://example.com/movie/550?expires=9999999999&sig=forged');
+		expect(response.status).toBe(401);
+		expect(await response.json()).toEqual({ error: 'Unauthorized', message: 'Invalid URL signature' });
+	});
+});
+
+describe('worker rate limiting', () => {
+	// Two requests per class and minute for the test key
+	const limitedEnv = (name: string): Env => ({
+		...testEnv,
+		RATE_LIMITS: JSON.stringify({ keys: { [name]: { read: { limit: 2, window_seconds: 60 }, admin: { limit: 2, window_seconds: 60 } } } }),
 	});
 
-	it('responds with Hello World! (integration style)', async () => {
-		const response = await SELF.fetch('https://example.com');
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+	beforeAll(async () => {
+		await applySchema(testEnv);
+	});
+
+	async function readKey(name: string): Promise<string> {
+		const generated = await generateApiKey();
+		await insertApiKey(testEnv, { name, keyHash: generated.keyHash, keyPrefix: generated.keyPrefix, scopes: ['read'], expiresAt: null });
+		return generated.key;
+	}
+
+	async function fetchAs(key: string, name: string, path: string): Promise<Response> {
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(new IncomingRequest(`http://example.com${path}`, { headers: { 'x-api-key': key } }), limitedEnv(name), ctx);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	it('counts requests to unknown routes', async () => {
+		const key = await readKey('route-prober');
+
+		expect((await fetchAs(key, 'route-prober', '/nope-1')).status).toBe(404);
+		expect((await fetchAs(key, 'route-prober', '/nope-2')).status).toBe(404);
+		expect((await fetchAs(key, 'route-prober', '/nope-3')).status).toBe(429);
+	});
+
+	it('counts requests rejected for a missing scope', async () => {
+		const key = await readKey('scope-prober');
+
+		const forbidden = await fetchAs(key, 'scope-prober', '/admin/keys');
+		expect(forbidden.status).toBe(403);
+		expect(forbidden.headers.get('RateLimit-Remaining')).toBe('1');
+		expect((await fetchAs(key, 'scope-prober', '/admin/budget')).status).toBe(403);
+		expect((await fetchAs(key, 'scope-prober', '/admin/keys')).status).toBe(429);
 	});
 });
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { getLanguageName, isLanguageCode, parseLanguageAllowlist } from '../src/utils/iso639';
+
+describe('ISO 639-1 codes', () => {
+	it('recognises language codes in any case', () => {
+		expect(isLanguageCode('hi')).toBe(true);
+		expect(isLanguageCode('TA')).toBe(true);
+		expect(getLanguageName('ml')).toBe('Malayalam');
+	});
+
+	it('does not accept object prototype keys as languages', () => {
+		for (const code of ['constructor', 'toString', 'tostring', '__proto__', 'hasOwnProperty']) {
+			expect(isLanguageCode(code)).toBe(false);
+			expect(getLanguageName(code)).toBe('Unknown Language');
+		}
+		expect(parseLanguageAllowlist('en,constructor,hi')).toEqual(['en', 'hi']);
+	});
+});
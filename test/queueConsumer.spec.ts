@@ -0,0 +1,130 @@
+import { env, fetchMock, createExecutionContext, createMessageBatch, getQueueResult } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import type { Env, MovieQueueMessage, MovieRoast, TMDBMovieDetails } from '../src/types';
+import { handleMovieQueueBatch } from '../src/handlers/queueConsumer';
+import { CronTracker, getCronLockTimeoutMs } from '../src/services/cron';
+import { getGenerationJob, getLatestExtraction, getMovie, insertApiCost, insertGenerationJobs, upsertMovie, upsertRoast } from '../src/services/database';
+import { applySchema } from './db';
+
+const testEnv = env as unknown as Env;
+
+const MOVIE_ID = 550;
+
+beforeAll(async () => {
+	await applySchema(testEnv);
+	fetchMock.activate();
+	fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+function mockTruthResearch() {
+	fetchMock
+		.get('https://api.themoviedb.org')
+		.intercept({ path: (path) => path.startsWith(`/3/movie/${MOVIE_ID}?`) })
+		.reply(200, { id: MOVIE_ID, title: 'Fight Club', release_date: '1999-10-15', original_language: 'en', popularity: 60, vote_average: 8.4, vote_count: 30000 });
+	fetchMock
+		.get('https://api.search.brave.com')
+		.intercept({ path: (path) => path.startsWith('/res/v1/web/search?') })
+		.reply(200, { web: { results: [{ title: 'Fight Club review', url: 'https://example.com/review', description: 'A cult classic.' }] } });
+	fetchMock
+		.get('https://api.x.ai')
+		.intercept({ path: '/v1/chat/completions', method: 'POST' })
+		.reply(200, {
+			choices: [{ message: { content: JSON.stringify({ plot_summary: 'An insomniac starts an underground fight club.' }) } }],
+			usage: { prompt_tokens: 1000, completion_tokens: 200, total_tokens: 1200 },
+		});
+}
+
+async function consume(body: MovieQueueMessage) {
+	const batch = createMessageBatch<MovieQueueMessage>('movie-processing-queue', [{ id: 'message-1', timestamp: new Date(), attempts: 1, body }]);
+	await handleMovieQueueBatch(batch, testEnv);
+	return getQueueResult(batch, createExecutionContext());
+}
+
+describe('movie queue consumer', () => {
+	it('researches truth for a movie that is not in the database yet', async () => {
+		expect(await getMovie(testEnv, MOVIE_ID)).toBeNull();
+		const [jobId] = await insertGenerationJobs(testEnv, [
+			{ type: 'truth', movieId: MOVIE_ID, title: 'Fight Club', language: 'en', correlationId: 'test' },
+		]);
+		mockTruthResearch();
+
+		const result = await consume({ movieId: MOVIE_ID, title: 'Fight Club', correlationId: 'test', type: 'truth', jobId });
+
+		expect(result.explicitAcks).toEqual(['message-1']);
+		expect(result.retryMessages).toEqual([]);
+		expect((await getMovie(testEnv, MOVIE_ID))?.title).toBe('Fight Club');
+		expect(await getLatestExtraction(testEnv, MOVIE_ID)).not.toBeNull();
+		expect((await getGenerationJob(testEnv, jobId))?.status).toBe('succeeded');
+	});
+
+	it('skips a roast job when the movie already has an active roast in that language', async () => {
+		const movieId = 551;
+		await upsertMovie(testEnv, { id: movieId, title: 'Already Roasted' } as TMDBMovieDetails);
+		await upsertRoast(testEnv, movieId, { headline: 'Already roasted' } as MovieRoast, 'en');
+		const [jobId] = await insertGenerationJobs(testEnv, [
+			{ type: 'roast', movieId, title: 'Already Roasted', language: 'en', correlationId: 'test' },
+		]);
+
+		const result = await consume({ movieId, title: 'Already Roasted', correlationId: 'test', type: 'roast', language: 'en', jobId });
+
+		expect(result.explicitAcks).toEqual(['message-1']);
+		const job = await getGenerationJob(testEnv, jobId);
+		expect(job?.status).toBe('skipped');
+		expect(job?.last_error).toBe('Roast already exists');
+	});
+
+	it('defers truth research without calling Brave when the Grok budget is spent, keeping the cron run locked', async () => {
+		await insertApiCost(testEnv, {
+			provider: 'grok',
+			model: 'grok-4-1-fast-non-reasoning',
+			operation: 'extraction',
+			movieId: null,
+			correlationId: 'earlier',
+			usage: {},
+			costUsd: 50,
+			costInr: 0,
+		});
+		const tracker = new CronTracker(testEnv, 'movie_roast');
+		const cronRunId = await tracker.startRun();
+		const [jobId] = await insertGenerationJobs(testEnv, [
+			{ type: 'truth', movieId: MOVIE_ID, title: 'Fight Club', language: 'en', correlationId: 'test', cronRunId },
+		]);
+		await tracker.markDispatched(cronRunId, 1);
+		// Only TMDB is mocked: a Brave or Grok request would fail the message instead of deferring it
+		fetchMock
+			.get('https://api.themoviedb.org')
+			.intercept({ path: (path) => path.startsWith(`/3/movie/${MOVIE_ID}?`) })
+			.reply(200, { id: MOVIE_ID, title: 'Fight Club', release_date: '1999-10-15', original_language: 'en' });
+
+		const result = await consume({ movieId: MOVIE_ID, title: 'Fight Club', correlationId: 'test', type: 'truth', jobId, cronRunId });
+
+		expect(result.explicitAcks).toEqual(['message-1']);
+		expect(result.retryMessages).toEqual([]);
+		expect(await getLatestExtraction(testEnv, MOVIE_ID)).toBeNull();
+		// The run keeps its lock until the deferred message comes back (at least a minute)
+		const run = await testEnv.plotburn_db.prepare('SELECT lease_expires_at FROM cron_runs WHERE id = ?').bind(cronRunId).first<{ lease_expires_at: number }>();
+		expect(run!.lease_expires_at).toBeGreaterThan(Date.now() + 60 * 1000 + getCronLockTimeoutMs(testEnv) - 5000);
+		const job = await getGenerationJob(testEnv, jobId);
+		expect(job?.status).toBe('queued');
+		expect(job?.last_error).toContain('grok spend budget exhausted');
+	});
+
+	it('records the cost of a Brave search that fails', async () => {
+		fetchMock
+			.get('https://api.themoviedb.org')
+			.intercept({ path: (path) => path.startsWith(`/3/movie/${MOVIE_ID}?`) })
+			.reply(200, { id: MOVIE_ID, title: 'Fight Club', release_date: '1999-10-15', original_language: 'en' });
+		fetchMock
+			.get('https://api.search.brave.com')
+			.intercept({ path: (path) => path.startsWith('/res/v1/web/search?') })
+			.reply(500, 'Internal error');
+
+		const result = await consume({ movieId: MOVIE_ID, title: 'Fight Club', correlationId: 'test', type: 'truth' });
+
+		expect(result.retryMessages).toEqual([{ msgId: 'message-1' }]);
+		const costs = await testEnv.plotburn_db.prepare("SELECT operation FROM api_costs WHERE provider = 'brave' AND movie_id = ?").bind(MOVIE_ID).all();
+		expect(costs.results).toEqual([{ operation: 'search' }]);
+	});
+});
@@ -0,0 +1,83 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import type { Env, RateLimitPolicy } from '../src/types';
+import { RateLimiter } from '../src/utils/rateLimiterObject';
+import { evaluateSlidingWindow, limitRequest } from '../src/utils/rateLimit';
+
+const testEnv = env as unknown as Env;
+
+// Long window so a test never straddles a window boundary
+const POLICY: RateLimitPolicy = { limit: 10, window_seconds: 86400 };
+
+function limiter(identity: string) {
+	return testEnv.RATE_LIMITER_DO.get(testEnv.RATE_LIMITER_DO.idFromName(identity));
+}
+
+describe('RateLimiter Durable Object', () => {
+	it('counts concurrent requests exactly', async () => {
+		const stub = limiter('concurrent');
+
+		const results = await Promise.all(Array.from({ length: 50 }, () => stub.check(POLICY)));
+
+		expect(results.filter((r) => r.allowed)).toHaveLength(POLICY.limit);
+		expect(results.filter((r) => !r.allowed)).toHaveLength(50 - POLICY.limit);
+		// Every allowed request saw a different remaining count
+		const remaining = results.filter((r) => r.allowed).map((r) => r.remaining);
+		expect(new Set(remaining).size).toBe(POLICY.limit);
+	});
+
+	it('does not count denied requests', async () => {
+		const stub = limiter('denied');
+
+		await Promise.all(Array.from({ length: 15 }, () => stub.check(POLICY)));
+
+		await runInDurableObject(stub, async (_instance: RateLimiter, state) => {
+			const window = await state.storage.get<{ current: number }>('window');
+			expect(window?.current).toBe(POLICY.limit);
+		});
+	});
+
+	it('keeps identities independent', async () => {
+		const [first, second] = await Promise.all([limiter('key:1:read').check(POLICY), limiter('key:2:read').check(POLICY)]);
+
+		expect(first).toMatchObject({ allowed: true, remaining: POLICY.limit - 1 });
+		expect(second).toMatchObject({ allowed: true, remaining: POLICY.limit - 1 });
+	});
+
+	it('reports Retry-After once limited', async () => {
+		const stub = limiter('retry');
+
+		for (let i = 0; i < POLICY.limit; i++) {
+			await stub.check(POLICY);
+		}
+		const limited = await stub.check(POLICY);
+
+		expect(limited.allowed).toBe(false);
+		expect(limited.remaining).toBe(0);
+		expect(limited.retry_after_seconds).toBeGreaterThan(0);
+		expect(limited.retry_after_seconds).toBeLessThanOrEqual(POLICY.window_seconds);
+	});
+
+	it('is selected by RATE_LIMITER=durable_object', async () => {
+		const durableEnv = { ...testEnv, RATE_LIMITER: 'durable_object' };
+
+		const results = await Promise.all(Array.from({ length: 20 }, () => limitRequest(durableEnv, 'selected', POLICY)));
+
+		expect(results.filter((r) => r.allowed)).toHaveLength(POLICY.limit);
+	});
+});
+
+describe('evaluateSlidingWindow', () => {
+	const policy: RateLimitPolicy = { limit: 10, window_seconds: 60 };
+
+	it('weights the previous window by its overlap', () => {
+		// Halfway through: 10 * 0.5 + 4 = 9 used, one left
+		expect(evaluateSlidingWindow(policy, 10, 4, 30)).toMatchObject({ allowed: true, remaining: 0 });
+		expect(evaluateSlidingWindow(policy, 10, 5, 30)).toMatchObject({ allowed: false });
+	});
+
+	it('waits for the previous window to decay before retrying', () => {
+		// 10 * (1 - (30 + t) / 60) + 5 + 1 <= 10  =>  t >= 6
+		expect(evaluateSlidingWindow(policy, 10, 5, 30).retry_after_seconds).toBe(6);
+	});
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { validateRoast } from '../src/utils/roastValidator';
+
+function validRoast(): Record<string, any> {
+	return {
+		headline: 'Fists, soap and existential dread',
+		overview: 'An insomniac office worker and a soap salesman start an underground fight club.',
+		roast: 'Two hours of men punching each other to feel something.',
+		reception: { bars: 8, label: 'Strong Approval' },
+		chips: ['Soap Opera', 'Bruised Egos', 'Twist Ending'],
+		similar_movies: ['Se7en', 'Memento', 'American Psycho', 'Gone Girl'],
+		shareable_caption: 'First rule: tell everyone about this roast #PlotBurn',
+	};
+}
+
+describe('roast validator', () => {
+	it('accepts a roast that follows the contract as is', () => {
+		const result = validateRoast(validRoast());
+		expect(result.violations).toEqual([]);
+		expect(result.repairs).toEqual([]);
+		expect(result.roast).toEqual(validRoast());
+	});
+
+	it('rejects anything that is not a JSON object', () => {
+		for (const raw of [null, 'roast', 42, [validRoast()]]) {
+			expect(validateRoast(raw)).toEqual({ roast: null, violations: ['Response must be a JSON object'], repairs: [] });
+		}
+	});
+
+	it('rejects missing or blank text fields', () => {
+		const raw: Record<string, any> = { ...validRoast(), headline: '   ' };
+		delete raw.overview;
+
+		const result = validateRoast(raw);
+		expect(result.roast).toBeNull();
+		expect(result.violations).toEqual(['"headline" must be a non-empty string', '"overview" must be a non-empty string']);
+	});
+
+	it('rejects a reception without numeric bars or with an unknown English label', () => {
+		expect(validateRoast({ ...validRoast(), reception: { bars: 'lots', label: 'Avoid' } }).violations).toEqual([
+			'"reception.bars" must be a number from 1 to 10',
+		]);
+		const result = validateRoast({ ...validRoast(), reception: { bars: 5, label: 'Meh' } });
+		expect(result.roast).toBeNull();
+		expect(result.violations[0]).toContain('"reception.label" must be one of');
+		expect(validateRoast({ ...validRoast(), reception: undefined }).violations).toEqual([
+			'"reception" must be an object with "bars" and "label"',
+		]);
+	});
+
+	it('accepts translated reception labels for other languages', () => {
+		const result = validateRoast({ ...validRoast(), reception: { bars: 8, label: 'ज़रूर देखें' } }, 'hi');
+		expect(result.violations).toEqual([]);
+		expect(result.roast?.reception.label).toBe('ज़रूर देखें');
+	});
+
+	it('rejects chips that are not two words or too few', () => {
+		expect(validateRoast({ ...validRoast(), chips: ['Soap', 'Bruised Egos', 'Twist Ending'] }).violations).toEqual([
+			'Every chip must be exactly 2 words (invalid: "Soap")',
+		]);
+		expect(validateRoast({ ...validRoast(), chips: ['Soap Opera', 'Bruised Egos'] }).violations).toEqual([
+			'"chips" must have exactly 3 items (got 2)',
+		]);
+		expect(validateRoast({ ...validRoast(), chips: 'Soap Opera' }).roast).toBeNull();
+	});
+
+	it('rejects too few similar movies', () => {
+		const result = validateRoast({ ...validRoast(), similar_movies: ['Se7en', '', 'Memento'] });
+		expect(result.roast).toBeNull();
+		expect(result.violations).toEqual(['"similar_movies" must have exactly 4 items (got 2)']);
+	});
+
+	it('repairs mechanical problems instead of rejecting the roast', () => {
+		const result = validateRoast({
+			...validRoast(),
+			headline: '  Fists, soap and existential dread  ',
+			reception: { bars: '12', label: 'Strong Approval' },
+			chips: [...validRoast().chips, 'Extra Chip'],
+			similar_movies: [...validRoast().similar_movies, 'Zodiac'],
+			shareable_caption: '#PlotBurn First rule: tell everyone about this roast',
+		});
+
+		expect(result.violations).toEqual([]);
+		expect(result.repairs).toHaveLength(4);
+		expect(result.roast).toEqual({ ...validRoast(), reception: { bars: 10, label: 'Strong Approval' } });
+	});
+});
@@ -0,0 +1,54 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { Env, MovieRoast, TMDBMovieDetails } from '../src/types';
+import { activateRoastVersion, getActiveRoast, getFeaturedRoasts, getRoastById, setRoastFeatured, upsertMovie, upsertRoast } from '../src/services/database';
+import { applySchema } from './db';
+
+const testEnv = env as unknown as Env;
+
+const SCHEDULE = { startsAt: 1000, endsAt: 4_000_000_000, rank: 2 };
+
+beforeAll(async () => {
+	await applySchema(testEnv);
+});
+
+async function featuredMovie(movieId: number): Promise<number> {
+	await upsertMovie(testEnv, { id: movieId, title: `Movie ${movieId}` } as TMDBMovieDetails);
+	const roastId = await upsertRoast(testEnv, movieId, { headline: 'First take' } as MovieRoast, 'en');
+	await setRoastFeatured(testEnv, roastId, SCHEDULE);
+	return roastId;
+}
+
+describe('roast versions', () => {
+	it('keeps a featured movie in the carousel when its roast is regenerated', async () => {
+		const firstId = await featuredMovie(700);
+
+		const secondId = await upsertRoast(testEnv, 700, { headline: 'Second take' } as MovieRoast, 'en', { reason: 'stale', requestedBy: 'test' });
+
+		expect(secondId).not.toBe(firstId);
+		expect((await getActiveRoast(testEnv, 700, 'en'))?.id).toBe(secondId);
+		const featured = await getFeaturedRoasts(testEnv, 2000);
+		expect(featured.map((entry) => entry.roast.id)).toEqual([secondId]);
+		expect(featured[0].roast).toMatchObject({ featured_starts_at: SCHEDULE.startsAt, featured_ends_at: SCHEDULE.endsAt, featured_rank: SCHEDULE.rank });
+	});
+
+	it('does not feature a regenerated roast that was not featured', async () => {
+		await upsertMovie(testEnv, { id: 701, title: 'Movie 701' } as TMDBMovieDetails);
+		await upsertRoast(testEnv, 701, { headline: 'First take' } as MovieRoast, 'en');
+		const secondId = await upsertRoast(testEnv, 701, { headline: 'Second take' } as MovieRoast, 'en');
+
+		expect((await getRoastById(testEnv, secondId))?.is_featured).toBe(0);
+	});
+
+	it('moves the feature schedule to a restored version', async () => {
+		const firstId = await featuredMovie(702);
+		await upsertRoast(testEnv, 702, { headline: 'Second take' } as MovieRoast, 'en');
+		await setRoastFeatured(testEnv, (await getActiveRoast(testEnv, 702, 'en'))!.id, { ...SCHEDULE, rank: 1 });
+
+		await activateRoastVersion(testEnv, (await getRoastById(testEnv, firstId))!);
+
+		const featured = await getFeaturedRoasts(testEnv, 2000);
+		expect(featured.map((entry) => entry.roast.id)).toEqual([firstId]);
+		expect(featured[0].roast.featured_rank).toBe(1);
+	});
+});
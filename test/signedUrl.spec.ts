@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { signUrl, verifySignedUrl } from '../src/utils/signedUrl';
+
+const SECRET = 'test-signing-secret';
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('signed URLs', () => {
+	it('accepts a URL signed with the same secret before it expires', async () => {
+		const url = await signUrl(SECRET, new URL('https://example.com/movie/550?lang=hi'), now() + 3600);
+		expect(await verifySignedUrl(SECRET, 'GET', url)).toBe('valid');
+	});
+
+	it('does not depend on the order of the query parameters', async () => {
+		const url = await signUrl(SECRET, new URL('https://example.com/feed?category=popular&limit=10'), now() + 3600);
+		const reordered = new URL(`https://example.com/feed?sig=${url.searchParams.get('sig')}&limit=10&expires=${url.searchParams.get('expires')}&category=popular`);
+		expect(await verifySignedUrl(SECRET, 'GET', reordered)).toBe('valid');
+	});
+
+	it('treats a URL without a signature as unsigned', async () => {
+		expect(await verifySignedUrl(SECRET, 'GET', new URL('https://example.com/movie/550'))).toBe('unsigned');
+	});
+
+	it('reports an expired signature', async () => {
+		const url = await signUrl(SECRET, new URL('https://example.com/movie/550'), now() - 1);
+		expect(await verifySignedUrl(SECRET, 'GET', url)).toBe('expired');
+	});
+
+	it('rejects a tampered signature', async () => {
+		const url = await signUrl(SECRET, new URL('https://example.com/movie/550'), now() + 3600);
+		const signature = url.searchParams.get('sig')!;
+		url.searchParams.set('sig', (signature[0] === 'A' ? 'B' : 'A') + signature.slice(1));
+		expect(await verifySignedUrl(SECRET, 'GET', url)).toBe('invalid');
+	});
+
+	it('rejects a signature moved to another path', async () => {
+		const url = await signUrl(SECRET, new URL('https://example.com/movie/550'), now() + 3600);
+		url.pathname = '/movie/551';
+		expect(await verifySignedUrl(SECRET, 'GET', url)).toBe('invalid');
+	});
+
+	it('rejects changed query parameters and an extended expiry', async () => {
+		const url = await signUrl(SECRET, new URL('https://example.com/movie/550?lang=hi'), now() + 3600);
+
+		const otherLanguage = new URL(url);
+		otherLanguage.searchParams.set('lang', 'ta');
+		expect(await verifySignedUrl(SECRET, 'GET', otherLanguage)).toBe('invalid');
+
+		const extended = new URL(url);
+		extended.searchParams.set('expires', String(now() + 86400));
+		expect(await verifySignedUrl(SECRET, 'GET', extended)).toBe('invalid');
+	});
+
+	it('rejects a signature made with another secret, another method or without a secret configured', async () => {
+		const url = await signUrl(SECRET, new URL('https://example.com/movie/550'), now() + 3600);
+		expect(await verifySignedUrl('another-secret', 'GET', url)).toBe('invalid');
+		expect(await verifySignedUrl(SECRET, 'POST', url)).toBe('invalid');
+		expect(await verifySignedUrl(undefined, 'GET', url)).toBe('invalid');
+	});
+
+	it('rejects a signature without a numeric expiry', async () => {
+		const url = await signUrl(SECRET, new URL('https://example.com/movie/550'), now() + 3600);
+		url.searchParams.set('expires', 'never');
+		expect(await verifySignedUrl(SECRET, 'GET', url)).toBe('invalid');
+	});
+});